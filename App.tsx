@@ -1,24 +1,345 @@
-import React, { useState, useCallback } from 'react';
-import * as XLSX from 'xlsx';
-import { extractLeadsFromFile } from './services/geminiService';
-import { Lead, ProcessingStatus } from './types';
-import LeadTable from './components/LeadTable';
-import { Upload, FileSpreadsheet, Loader2, AlertCircle, Layers, Settings } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { extractLeadsFromFile, generateOutreachMessages, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { AiServiceError, getRetryAfterMs, isRetryableError } from './services/aiErrors';
+import {
+  loadLeads, saveLeadChanges, diffLeads, clearLeads,
+  loadSuppressedNumbers, addSuppressedNumbers, removeSuppressedNumber,
+  loadProfiles, saveProfiles, deleteProfile,
+  loadAuditLog, appendAuditEntry,
+} from './services/leadStore';
+import { createDefaultProfile, createProfile, toCampaignSettings, exportProfiles, parseImportedProfiles } from './services/campaignProfiles';
+import { normalizePhone, findPhoneNumbers } from './services/phoneNumber';
+import { checkCompliance, isCompliant } from './services/complianceRules';
+import { analyzeBatchSimilarity } from './services/messageSimilarity';
+import { applyDuplicateFlags, mergeLeads } from './services/duplicates';
+import { EMPTY_FILTER, filterLeads, sortLeads, isFilterActive, getLeadStatus } from './services/leadFilters';
+import { isPdfFile, splitPdfPages } from './services/pdfPages';
+import { splitRows, splitTextIntoChunks } from './services/textChunker';
+import { locateSourceRow, needsReview } from './services/sourceReview';
+import { loadExtraFields, saveExtraFields } from './services/extraFields';
+import { resolveLanguage } from './services/messageLanguage';
+import { getFollowUpDueDate, getFollowUpMessage, getNextFollowUpStep, getSentMessages, isFollowUpDue } from './services/followUps';
+import { countRedactions, redactText } from './services/piiRedaction';
+import { buildAuditLogFile } from './services/auditLog';
+import { createLimiter, mapWithConcurrency, retryWithBackoff } from './services/taskQueue';
+import {
+  loadSmsSettings, saveSmsSettings, isQuietHours, getDueTexts, getMessageToSend,
+  sendSms, fetchSmsStatuses, fetchSmsGatewayName, fetchInboundReplies, syncSuppression,
+  getInFlightMessageIds, applyDeliveryStatuses,
+} from './services/smsSender';
+import { applyReplies, parseReplyLog, REPLY_CATEGORY_LABELS, classifyReply } from './services/replies';
+import { buildExportFiles, downloadBlob, saveExportOptions, selectExportLeads } from './services/leadExport';
+import { isStructuredFile, parseSpreadsheet, applyColumnMapping, readSpreadsheetAsText } from './services/spreadsheetParser';
+import { AiSettings, AuditLogEntry, FollowUpContext, FollowUpMessage, SmsSendResult, SmsSettings, InboundReply, CampaignProfile, CampaignSettings, ColumnMapping, ExportColumn, ExportOptions, ExtraFieldDefinition, FileJob, Lead, LeadEdit, LeadFilter, LeadInput, LeadSort, MessageLanguage, ProcessingStatus, Redaction, SheetData, SourceDocument, SuppressedNumber } from './types';
+import LeadTable, { NextFollowUp } from './components/LeadTable';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import SuppressionPanel from './components/SuppressionPanel';
+import CampaignSettingsPanel from './components/CampaignSettingsPanel';
+import LeadFilterBar from './components/LeadFilterBar';
+import JobPanel from './components/JobPanel';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import ExtraFieldsPanel from './components/ExtraFieldsPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+import SmsSendPanel from './components/SmsSendPanel';
+import RepliesPanel from './components/RepliesPanel';
+import ExportDialog from './components/ExportDialog';
+import DuplicateReviewModal, { DuplicatePair } from './components/DuplicateReviewModal';
+import SourceReviewPane from './components/SourceReviewPane';
+import { Upload, FileSpreadsheet, Loader2, AlertCircle, Layers, Settings, Trash2, Shuffle, RefreshCw, Users, ScanSearch, CalendarClock, MessageSquarePlus } from 'lucide-react';
+
+type MappingDecision =
+  | { action: 'local'; mapping: ColumnMapping }
+  | { action: 'ai' }
+  | { action: 'skip' };
+
+// Leads per message-generation call when rewriting many messages at once
+const MESSAGE_BATCH_SIZE = 25;
+
+// Files worked on at the same time; the rest wait in the queue
+const FILE_CONCURRENCY = 2;
+
+// Every AI call made while processing uploads shares these slots
+const MAX_CONCURRENT_REQUESTS = 3;
+const aiQueue = createLimiter(MAX_CONCURRENT_REQUESTS);
+
+// A single page or text chunk sent to the extraction call
+interface ExtractionPart {
+  content: string;
+  mimeType: string;
+  sourcePage?: number;
+  // Text chunks only: the file row of each line in content
+  rowNumbers?: number[];
+}
+
+const ACTIVE_PROFILE_KEY = "cold-leads.activeProfileId";
+
+// How often delivery status is checked while texts are in flight
+const DELIVERY_POLL_MS = 10000;
+// Gateway limit on ids per status lookup
+const STATUS_BATCH_SIZE = 100;
+
+// How often the server is asked for replies its SMS webhook received
+const REPLY_POLL_MS = 15000;
+// Receive time of the newest webhook reply already applied
+const REPLIES_SINCE_KEY = "cold-leads.repliesSince";
+
+const isSameCampaign = (a: CampaignSettings, b: CampaignSettings) =>
+  (!a.profileId || !b.profileId || a.profileId === b.profileId) &&
+  a.senderName.trim() === b.senderName.trim() &&
+  a.companyName.trim() === b.companyName.trim();
+
+interface PendingMapping {
+  fileName: string;
+  sheet: SheetData;
+  mapping: ColumnMapping;
+  resolve: (decision: MappingDecision) => void;
+}
 
 const App: React.FC = () => {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [isDragActive, setIsDragActive] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [suppressedNumbers, setSuppressedNumbers] = useState<SuppressedNumber[]>([]);
+  // Lead ids picked in the table when the export dialog was opened (empty: none)
+  const [exportSelection, setExportSelection] = useState<string[] | null>(null);
+  const [showDuplicateReview, setShowDuplicateReview] = useState(false);
+  // Uploads kept for the source review pane, by job id; lost on reload
+  const [sources, setSources] = useState<Map<string, SourceDocument>>(new Map());
+  const [reviewIds, setReviewIds] = useState<string[] | null>(null);
+  const [lastBatchIds, setLastBatchIds] = useState<string[]>([]);
+  const [regeneratingIds, setRegeneratingIds] = useState<string[]>([]);
+  const [filter, setFilter] = useState<LeadFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<LeadSort | null>(null);
+  const [jobs, setJobs] = useState<FileJob[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
   
   // Campaign Settings
-  const [senderName, setSenderName] = useState("");
-  const [companyName, setCompanyName] = useState("");
+  const [profiles, setProfiles] = useState<CampaignProfile[]>([createDefaultProfile()]);
+  const [activeProfileId, setActiveProfileId] = useState<string>(
+    () => localStorage.getItem(ACTIVE_PROFILE_KEY) || createDefaultProfile().id
+  );
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [extraFields, setExtraFields] = useState<ExtraFieldDefinition[]>(loadExtraFields);
+
+  // SMS Sending
+  const [smsSettings, setSmsSettings] = useState<SmsSettings>(loadSmsSettings);
+  const [smsGatewayName, setSmsGatewayName] = useState<string | null>(null);
+  const [sendProgress, setSendProgress] = useState<{ done: number; total: number } | null>(null);
+  const stopSendingRef = useRef(false);
+
+  // Replies
+  const [replyNotice, setReplyNotice] = useState<string | null>(null);
+  // Latest list for the reply poller, which outlives any one render
+  const leadsRef = useRef<Lead[]>(leads);
+  // The lead list as last written to storage; null until the history loaded,
+  // so a failed load never overwrites what is stored
+  const savedLeadsRef = useRef<Lead[] | null>(null);
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
+  const campaignSettings = toCampaignSettings(activeProfile);
+
+  // Filtered view (the header counters follow the active filter)
+  const filterActive = isFilterActive(filter);
+  const visibleLeads = useMemo(() => sortLeads(filterLeads(leads, filter), sort), [leads, filter, sort]);
+  const sourceFiles = useMemo(() => Array.from(new Set(leads.map(l => l.sourceFile))).sort(), [leads]);
 
   // Stats
-  const totalLeads = leads.length;
-  const duplicateCount = leads.filter(l => l.isDuplicate).length;
-  const newLeads = totalLeads - duplicateCount;
+  const totalLeads = visibleLeads.length;
+  const suppressedCount = visibleLeads.filter(l => l.isSuppressed).length;
+  const newLeads = visibleLeads.filter(l => getLeadStatus(l) === 'new').length;
+
+  // Variety of the most recent upload batch (recomputed when its messages change)
+  const similarityReport = useMemo(() => {
+    if (lastBatchIds.length === 0) return null;
+    const batchIdSet = new Set(lastBatchIds);
+    const batch = leads.filter(l => batchIdSet.has(l.id));
+    return batch.length > 0
+      ? analyzeBatchSimilarity(batch, [activeProfile.optOutSuffix, activeProfile.spanishOptOutSuffix])
+      : null;
+  }, [leads, lastBatchIds, activeProfile.optOutSuffix, activeProfile.spanishOptOutSuffix]);
+
+  // Unsent leads whose message was written with different sender/company settings
+  const outdatedLeads = leads.filter(l =>
+    !l.isSuppressed && !l.sentAt && l.campaignSettings && !isSameCampaign(l.campaignSettings, campaignSettings)
+  );
+  const isRegenerating = regeneratingIds.length > 0;
+
+  // Uncertain matches waiting for the user to decide
+  const leadsById = useMemo(() => new Map(leads.map(l => [l.id, l])), [leads]);
+  const duplicatePairs: DuplicatePair[] = leads
+    .filter(l => l.possibleDuplicate && getLeadStatus(l) === 'new' && leadsById.has(l.possibleDuplicate.leadId))
+    .map(lead => ({ lead, original: leadsById.get(lead.possibleDuplicate!.leadId)! }));
+
+  const reviewQueue = leads.filter(needsReview);
+  const reviewLeads = (reviewIds || []).flatMap(id => leadsById.get(id) ?? []);
+
+  const suppressedSet = useMemo(() => new Set(suppressedNumbers.map(n => n.phoneE164)), [suppressedNumbers]);
+
+  // Each lead follows the sequence of the campaign its first text was written for
+  const profileFor = (lead: Lead): CampaignProfile =>
+    profiles.find(p => p.id === lead.campaignSettings?.profileId) || activeProfile;
+
+  // First texts and follow-ups due today; sends and the "due" export cover only these
+  const dueTexts = useMemo(
+    () => getDueTexts(leads, lead => profileFor(lead).followUpSteps, smsSettings),
+    [leads, smsSettings, profiles, activeProfile]
+  );
+
+  const nextFollowUps = useMemo(() => new Map(leads.flatMap(lead => {
+    const steps = profileFor(lead).followUpSteps;
+    const step = getNextFollowUpStep(lead, steps);
+    if (step === null) return [];
+    const next: NextFollowUp = { step, dueDate: getFollowUpDueDate(lead, steps, step), written: Boolean(getFollowUpMessage(lead, step)) };
+    return [[lead.id, next] as const];
+  })), [leads, profiles, activeProfile]);
+
+  // Due follow-ups without a usable message yet
+  const followUpsToWrite = leads.filter(lead => {
+    const steps = profileFor(lead).followUpSteps;
+    if (!isFollowUpDue(lead, steps)) return false;
+    const written = getFollowUpMessage(lead, getNextFollowUpStep(lead, steps)!);
+    return !written || !isCompliant(written.complianceIssues);
+  });
+
+  const quietHours = isQuietHours(smsSettings);
+  // Sorted so the polling effect only restarts when the set of ids changes
+  const inFlightIds = getInFlightMessageIds(leads).sort().join(",");
+
+  // --- Lead History (IndexedDB) ---
+  // Load every previously extracted lead so duplicate checks cover all sessions.
+  useEffect(() => {
+    loadLeads()
+      .then(stored => {
+        savedLeadsRef.current = stored;
+        setLeads(stored);
+      })
+      .catch(err => {
+        console.error("Failed to load lead history:", err);
+        setErrorMsg("Could not load saved lead history. New leads will only be checked against this session and won't be saved.");
+      })
+      .finally(() => setHistoryLoaded(true));
+
+    loadProfiles()
+      .then(stored => {
+        if (stored.length > 0) {
+          setProfiles(stored.sort((a, b) => a.name.localeCompare(b.name)));
+        } else {
+          // First run: persist the built-in CDL profile so it can be edited
+          saveProfiles([createDefaultProfile()]).catch(err => console.error("Failed to save default profile:", err));
+        }
+      })
+      .catch(err => console.error("Failed to load campaign profiles:", err));
+
+    loadSuppressedNumbers()
+      .then(setSuppressedNumbers)
+      .catch(err => {
+        console.error("Failed to load Do-Not-Contact list:", err);
+        setErrorMsg("Could not load the Do-Not-Contact list. Opted-out numbers will not be flagged.");
+      });
+
+    loadAuditLog()
+      .then(setAuditLog)
+      .catch(err => console.error("Failed to load audit log:", err));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, activeProfile.id);
+  }, [activeProfile.id]);
+
+  useEffect(() => {
+    saveAiSettings(aiSettings);
+  }, [aiSettings]);
+
+  useEffect(() => {
+    saveExtraFields(extraFields);
+  }, [extraFields]);
+
+  useEffect(() => {
+    saveSmsSettings(smsSettings);
+  }, [smsSettings]);
+
+  useEffect(() => {
+    fetchSmsGatewayName().then(setSmsGatewayName);
+  }, []);
+
+  // The server keeps its own copy of the Do-Not-Contact list and won't text anyone on it
+  useEffect(() => {
+    if (smsGatewayName === null || suppressedNumbers.length === 0) return;
+    syncSuppression({ add: suppressedNumbers }, smsSettings.accessKey)
+      .catch(err => console.error("Failed to copy the Do-Not-Contact list to the server:", err));
+  }, [suppressedNumbers, smsGatewayName, smsSettings.accessKey]);
+
+  // Poll the gateway until every queued or sent text is delivered or failed
+  useEffect(() => {
+    if (!inFlightIds) return;
+    const ids = inFlightIds.split(",");
+
+    const poll = async () => {
+      try {
+        const results = [];
+        for (let i = 0; i < ids.length; i += STATUS_BATCH_SIZE) {
+          results.push(...await fetchSmsStatuses(ids.slice(i, i + STATUS_BATCH_SIZE), smsSettings.accessKey));
+        }
+        setLeads(prev => applyDeliveryStatuses(prev, results));
+      } catch (err) {
+        console.error("Failed to check delivery status:", err);
+      }
+    };
+
+    const timer = setInterval(poll, DELIVERY_POLL_MS);
+    return () => clearInterval(timer);
+  }, [inFlightIds, smsSettings.accessKey]);
+
+  useEffect(() => {
+    leadsRef.current = leads;
+  }, [leads]);
+
+  // Pick up replies from the SMS webhook while the app server is reachable
+  useEffect(() => {
+    if (!historyLoaded || smsGatewayName === null) return;
+
+    const poll = async () => {
+      try {
+        const since = localStorage.getItem(REPLIES_SINCE_KEY) || "";
+        const { replies, optOuts } = await fetchInboundReplies(since, smsSettings.accessKey);
+        if (replies.length === 0 && optOuts.length === 0) return;
+        if (replies.length > 0) ingestReplies(replies, "STOP reply");
+        // STOPs the server saved whose reply never made it here (e.g. it restarted before this poll)
+        if (optOuts.length > 0) suppressNumbers(optOuts.map(o => o.phoneE164), "STOP reply");
+        const newest = [...replies.map(r => r.receivedAt), ...optOuts.map(o => o.addedAt)]
+          .reduce((latest, time) => (time > latest ? time : latest), since);
+        localStorage.setItem(REPLIES_SINCE_KEY, newest);
+      } catch (err) {
+        console.error("Failed to check for replies:", err);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, REPLY_POLL_MS);
+    return () => clearInterval(timer);
+  }, [historyLoaded, smsGatewayName, smsSettings.accessKey]);
+
+  // Re-flag every lead whenever the Do-Not-Contact list changes
+  useEffect(() => {
+    setLeads(prev => {
+      const changed = prev.some(l => l.isSuppressed !== suppressedSet.has(l.phoneE164));
+      if (!changed) return prev;
+      return prev.map(l => (l.isSuppressed === suppressedSet.has(l.phoneE164) ? l : { ...l, isSuppressed: suppressedSet.has(l.phoneE164) }));
+    });
+  }, [suppressedSet]);
+
+  // Write each change to storage once history has been loaded: only the
+  // leads that changed, since sending and reply polling update leads often
+  useEffect(() => {
+    const saved = savedLeadsRef.current;
+    if (!saved || saved === leads) return;
+    const { changed, deletedIds } = diffLeads(saved, leads);
+    savedLeadsRef.current = leads;
+    if (changed.length === 0 && deletedIds.length === 0) return;
+    saveLeadChanges(changed, deletedIds).catch(err => console.error("Failed to save lead history:", err));
+  }, [leads]);
 
   // --- File Processing Helper ---
   const readFile = (file: File): Promise<{ content: string; mimeType: string }> => {
@@ -38,6 +359,14 @@ const App: React.FC = () => {
         return;
       }
 
+      // Handle Excel workbooks - converted to CSV text for the AI
+      if (/\.xlsx?$/i.test(file.name)) {
+        readSpreadsheetAsText(file)
+          .then(text => resolve({ content: text, mimeType: "text/plain" }))
+          .catch(() => reject(new Error(`Failed to read spreadsheet: ${file.name}`)));
+        return;
+      }
+
       // Handle Text/CSV - Logic relaxed to catch files with missing/odd mime types
       // If it's not an image, we try to read it as text.
       reader.onload = () => {
@@ -48,97 +377,304 @@ const App: React.FC = () => {
     });
   };
 
-  // --- Main Processing Logic ---
-  const processFiles = async (files: FileList) => {
-    if (files.length === 0) return;
-    
-    // Limit to 10 files
-    if (files.length > 10) {
-      setErrorMsg("Please upload a maximum of 10 files at a time.");
-      return;
+  // Splits a file into the parts sent to the extraction call: one per PDF
+  // page, row chunks for text and spreadsheets, or the whole image. Also
+  // returns what the source review pane needs to show the file. Text is
+  // redacted here, before any of it is sent.
+  const readExtractionParts = async (
+    file: File
+  ): Promise<{ parts: ExtractionPart[]; unit: string; source: SourceDocument; redactions: Redaction[] }> => {
+    if (isPdfFile(file)) {
+      try {
+        const pages = await splitPdfPages(file);
+        return {
+          parts: pages.map((content, i) => ({ content, mimeType: "application/pdf", sourcePage: i + 1 })),
+          unit: "Page",
+          source: { kind: 'pdf', url: URL.createObjectURL(file) },
+          redactions: [],
+        };
+      } catch (err) {
+        console.error(err);
+        throw new Error(`Failed to read PDF: ${file.name}`);
+      }
     }
 
-    setStatus(ProcessingStatus.PROCESSING);
-    setErrorMsg(null);
+    const { content, mimeType } = await readFile(file);
+    if (mimeType !== "text/plain") {
+      return { parts: [{ content, mimeType }], unit: "Part", source: { kind: 'image', url: URL.createObjectURL(file) }, redactions: [] };
+    }
+    const { text, redactions } = redactText(content);
+    return {
+      parts: splitTextIntoChunks(text).map(chunk => ({ content: chunk.text, mimeType, rowNumbers: chunk.rowNumbers })),
+      unit: "Chunk",
+      source: { kind: 'text', rows: splitRows(text) },
+      redactions,
+    };
+  };
+
+  const registerSource = (id: string, source: SourceDocument) => {
+    setSources(prev => {
+      const replaced = prev.get(id);
+      if (replaced && replaced.kind !== 'text') URL.revokeObjectURL(replaced.url);
+      return new Map(prev).set(id, source);
+    });
+  };
+
+  // Retries Gemini rate limits and outages with backoff, waiting as long as
+  // the server asks; other failures surface immediately
+  const callAi = <T,>(task: () => Promise<T>): Promise<T> =>
+    aiQueue(() => retryWithBackoff(task, isRetryableError, { getRetryAfterMs }));
+
+  const updateJob = (id: string, changes: Partial<FileJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  };
+
+  // Runs every part through the shared AI queue and merges the results in
+  // order. One failed part doesn't sink the file, but it is reported.
+  const extractLeadsFromParts = async (
+    jobId: string,
+    parts: ExtractionPart[],
+    unit: string,
+    source: SourceDocument
+  ): Promise<LeadInput[]> => {
+    const failedParts: number[] = [];
+    let firstError: unknown = null;
+    let finished = 0;
+
+    const showProgress = () => {
+      if (parts.length > 1) updateJob(jobId, { detail: `${unit} ${finished} of ${parts.length}` });
+    };
+    showProgress();
+
+    const results = await Promise.all(parts.map((part, i) => callAi(() => extractLeadsFromFile(part.content, part.mimeType, aiSettings, extraFields))
+      .then(rows => rows.map(row => ({
+        ...row,
+        sourcePage: part.sourcePage ?? row.sourcePage,
+        // The model counts lines within the chunk; turn that into a file row
+        sourceRow: part.rowNumbers && source.kind === 'text'
+          ? locateSourceRow(source.rows, part.rowNumbers, row)
+          : undefined,
+      })))
+      .catch(err => {
+        // A page or chunk without any drivers on it is fine
+        if (err instanceof AiServiceError && err.kind === 'no-leads') return [];
+        console.error(`Error processing ${unit.toLowerCase()} ${i + 1}:`, err);
+        failedParts.push(i + 1);
+        firstError = firstError ?? err;
+        return [];
+      })
+      .finally(() => {
+        finished++;
+        showProgress();
+      })
+    ));
+
+    if (parts.length > 0 && failedParts.length === parts.length) throw firstError;
+    if (failedParts.length > 0) {
+      const list = failedParts.sort((a, b) => a - b).join(', ');
+      updateJob(jobId, { warning: `${unit} ${list} of ${parts.length} could not be read` });
+    }
+    return results.flat();
+  };
 
-    const fileArray = Array.from(files);
-    const newLeadsAccumulator: Lead[] = [];
-    const errors: string[] = [];
+  // Shows the column mapping modal and waits for the user's decision
+  const requestColumnMapping = (fileName: string, sheet: SheetData, mapping: ColumnMapping): Promise<MappingDecision> => {
+    return new Promise(resolve => {
+      setPendingMapping({
+        fileName,
+        sheet,
+        mapping,
+        resolve: (decision) => {
+          setPendingMapping(null);
+          resolve(decision);
+        },
+      });
+    });
+  };
+
+  // Appends to the audit log; a failed write is logged but doesn't fail the file
+  const recordAudit = (entry: AuditLogEntry) => {
+    setAuditLog(prev => [entry, ...prev]);
+    appendAuditEntry(entry).catch(err => console.error("Failed to save audit log entry:", err));
+  };
+
+  // --- Main Processing Logic ---
+  // Runs one file through extraction and message writing, keeping its job
+  // row up to date. Never throws: failures are recorded on the job and
+  // reported as null.
+  const processJob = async (job: FileJob): Promise<Lead[] | null> => {
+    const { file } = job;
+    // Filled in once anything has been sent to the AI
+    let audit: AuditLogEntry | null = null;
+    const startAudit = (sent: AuditLogEntry['sent'], redactions: Redaction[]) => {
+      audit = {
+        id: crypto.randomUUID(),
+        sentAt: new Date().toISOString(),
+        fileName: file.name,
+        fileType: file.type || "unknown",
+        sent,
+        provider: aiSettings.provider,
+        model: aiSettings.model,
+        leadCount: 0,
+        skippedCount: 0,
+        redactions: countRedactions(redactions),
+        campaign: {
+          ...campaignSettings,
+          profileName: activeProfile.name,
+          optOutSuffix: activeProfile.optOutSuffix,
+          spanishOptOutSuffix: activeProfile.spanishOptOutSuffix,
+          language: activeProfile.language,
+        },
+        extraFields: extraFields.map(f => f.key),
+      };
+    };
 
     try {
-      // Process files concurrently
-      const promises = fileArray.map(async (file) => {
-        try {
-          const { content, mimeType } = await readFile(file);
-          // Pass campaign settings to extraction service
-          const extractedData = await extractLeadsFromFile(content, mimeType, senderName, companyName);
-          
-          if (!extractedData || extractedData.length === 0) {
-            console.warn(`No leads found in ${file.name}`);
-            return [];
-          }
+      // Step 1: names and numbers, from the sheet or from the AI extraction call
+      let rows = job.mappedRows;
+      if (!rows) {
+        updateJob(job.id, { state: 'reading' });
+        const { parts, unit, source, redactions } = await readExtractionParts(file);
+        registerSource(job.id, source);
+        updateJob(job.id, { state: 'extracting', redactions: redactions.length > 0 ? redactions : undefined });
+        startAudit(source.kind, redactions);
+        rows = await extractLeadsFromParts(job.id, parts, unit, source);
+      }
+      if (rows.length === 0) throw new AiServiceError('no-leads');
 
-          // Map to Lead objects immediately
-          return extractedData.map(item => ({
-            id: crypto.randomUUID(),
-            fullName: item.fullName,
-            phoneNumber: item.phoneNumber,
-            outreachMessage: item.outreachMessage,
-            sourceFile: file.name,
-            isDuplicate: false, // We check this later
-            extractedAt: new Date().toISOString()
-          }));
-        } catch (err: any) {
-          console.error(`Error processing ${file.name}:`, err);
-          errors.push(`${file.name}: ${err.message || 'Unknown error'}`);
+      // Drop numbers that fail NANP validation before paying for messages
+      const rejectedNumbers: string[] = [];
+      const validRows: LeadInput[] = rows.flatMap(item => {
+        const phone = normalizePhone(item.phoneNumber);
+        if (!phone.isValid || !phone.e164) {
+          rejectedNumbers.push(`${item.fullName || 'Unknown'} (${item.phoneNumber}): ${phone.issue}`);
           return [];
         }
+        return [{ ...item, phoneNumber: phone.display, language: resolveLanguage(activeProfile.language, item, file.name) }];
       });
-
-      const results = await Promise.all(promises);
-      
-      // Flatten results
-      results.forEach(batch => newLeadsAccumulator.push(...batch));
-
-      // Error handling logic
-      if (newLeadsAccumulator.length === 0 && errors.length > 0) {
-        throw new Error(`Failed to extract leads. Errors: ${errors.join(' | ')}`);
-      } else if (newLeadsAccumulator.length === 0) {
-        throw new Error("No valid leads found (checked for mobile numbers only).");
+      if (rejectedNumbers.length > 0) {
+        console.warn(`Rejected invalid phone numbers in ${file.name}:`, rejectedNumbers);
       }
 
-      // --- Robust Duplicate Detection ---
-      // We must detect duplicates within the NEW batch AND against OLD history.
-      setLeads(prevLeads => {
-        const existingPhones = new Set(prevLeads.map(l => l.phoneNumber));
-        
-        const processedBatch = newLeadsAccumulator.map(lead => {
-          // Check if it exists in history OR if we've already seen it in this current batch processing
-          if (existingPhones.has(lead.phoneNumber)) {
-            return { ...lead, isDuplicate: true };
-          } else {
-            // Mark as seen so subsequent occurrences in this batch are marked duplicate
-            existingPhones.add(lead.phoneNumber);
-            return { ...lead, isDuplicate: false };
-          }
-        });
+      // Step 2: write the messages with the current campaign settings, in batches
+      updateJob(job.id, { state: 'writing', detail: undefined });
+      if (!audit) startAudit('names', []);
+      const batches: LeadInput[][] = [];
+      for (let i = 0; i < validRows.length; i += MESSAGE_BATCH_SIZE) {
+        batches.push(validRows.slice(i, i + MESSAGE_BATCH_SIZE));
+      }
+      const messages = (await Promise.all(
+        batches.map(batch => callAi(() => generateOutreachMessages(batch, activeProfile, aiSettings)))
+      )).flat();
+      // Messages come back in row order; the source details stay with the rows
+      const extractedData = validRows.map((row, i) => ({ ...row, outreachMessage: messages[i]?.outreachMessage || "" }));
 
-        return [...processedBatch, ...prevLeads];
+      const newLeads: Lead[] = extractedData.map(item => {
+        const phone = normalizePhone(item.phoneNumber);
+        return {
+          id: crypto.randomUUID(),
+          fullName: item.fullName,
+          phoneNumber: phone.display,
+          phoneE164: phone.e164!,
+          phoneWarning: phone.issue,
+          outreachMessage: item.outreachMessage,
+          complianceIssues: checkCompliance(item.outreachMessage, activeProfile, item.language),
+          campaignSettings,
+          sourceFile: file.name,
+          sourcePage: item.sourcePage,
+          sourceId: job.id,
+          sourceRow: item.sourceRow,
+          sourceRegion: item.sourceRegion,
+          confidence: item.confidence,
+          extraFields: item.extraFields,
+          language: item.language || 'en',
+          status: 'new', // Duplicates are flagged once the whole run is merged
+          isSuppressed: suppressedSet.has(phone.e164!),
+          extractedAt: new Date().toISOString()
+        };
       });
 
-      setStatus(ProcessingStatus.SUCCESS);
-      if (errors.length > 0) {
-        setErrorMsg(`Processed with some errors: ${errors.join(', ')}`);
+      updateJob(job.id, { state: 'done', detail: undefined, leadCount: newLeads.length, skippedCount: rejectedNumbers.length });
+      if (audit) recordAudit({ ...audit, leadCount: newLeads.length, skippedCount: rejectedNumbers.length });
+      return newLeads;
+    } catch (err: any) {
+      console.error(`Error processing ${file.name}:`, err);
+      updateJob(job.id, { state: 'failed', detail: undefined, error: err?.message || 'Unknown error' });
+      if (audit) recordAudit({ ...audit, error: err?.message || 'Unknown error' });
+      // Every other file will fail the same way, so say it once up top
+      if (err instanceof AiServiceError && (err.kind === 'auth' || err.kind === 'access-denied')) setErrorMsg(err.message);
+      return null;
+    }
+  };
+
+  // Works through the queue a few files at a time, then merges every new
+  // lead into the list in one go so duplicate flags see the whole run.
+  const runJobs = async (batch: FileJob[]) => {
+    if (batch.length === 0) return;
+    setStatus(ProcessingStatus.PROCESSING);
+    setErrorMsg(null);
+
+    const results = await mapWithConcurrency(batch, FILE_CONCURRENCY, processJob);
+    const failed = results.filter(result => result === null).length;
+    const newLeads = results.flatMap(result => result ?? []);
+
+    if (newLeads.length > 0) {
+      // The earliest lead with a number stays the original; later ones are flagged
+      setLeads(prevLeads => applyDuplicateFlags([...newLeads, ...prevLeads]));
+      setLastBatchIds(newLeads.map(l => l.id));
+    }
+    setStatus(failed > 0 ? ProcessingStatus.ERROR : ProcessingStatus.SUCCESS);
+  };
+
+  const processFiles = async (files: FileList) => {
+    if (files.length === 0) return;
+
+    setStatus(ProcessingStatus.PROCESSING);
+    setErrorMsg(null);
+
+    // Spreadsheets with recognizable headers are parsed locally.
+    // Mappings are confirmed one file at a time before any AI calls start.
+    const newJobs: FileJob[] = [];
+    for (const file of Array.from(files)) {
+      const id = crypto.randomUUID();
+      let mappedRows: LeadInput[] | undefined;
+      if (isStructuredFile(file.name)) {
+        try {
+          const parsed = await parseSpreadsheet(file);
+          if (parsed) {
+            const decision = await requestColumnMapping(file.name, parsed.sheet, parsed.mapping);
+            if (decision.action === 'skip') continue;
+            if (decision.action === 'local') {
+              mappedRows = applyColumnMapping(parsed.sheet, decision.mapping, extraFields);
+              registerSource(id, { kind: 'text', rows: [parsed.sheet.headers, ...parsed.sheet.rows].map(row => row.join(", ")) });
+            }
+          }
+        } catch (err: any) {
+          console.warn(`Could not parse ${file.name} locally, falling back to AI:`, err);
+        }
       }
+      newJobs.push({ id, file, state: 'queued', mappedRows, leadCount: 0, skippedCount: 0 });
+    }
 
-    } catch (err: any) {
-      console.error(err);
-      setStatus(ProcessingStatus.ERROR);
-      setErrorMsg(err.message || "An unexpected error occurred.");
-    } finally {
-      // Clear status after delay so user sees the result
-      setTimeout(() => setStatus(ProcessingStatus.IDLE), 4000);
+    setJobs(prev => [...prev, ...newJobs]);
+    if (newJobs.length === 0) {
+      setStatus(ProcessingStatus.IDLE);
+      return;
     }
+    await runJobs(newJobs);
+  };
+
+  const retryJobs = (ids: string[]) => {
+    const retried = jobs
+      .filter(job => ids.includes(job.id) && job.state === 'failed')
+      .map(job => ({ ...job, state: 'queued' as const, detail: undefined, warning: undefined, error: undefined }));
+    const byId = new Map(retried.map(job => [job.id, job]));
+    setJobs(prev => prev.map(job => byId.get(job.id) ?? job));
+    runJobs(retried);
+  };
+
+  const clearFinishedJobs = () => {
+    setJobs(prev => prev.filter(job => job.state !== 'done' && job.state !== 'failed'));
   };
 
   // --- Handlers ---
@@ -154,7 +690,8 @@ const App: React.FC = () => {
     setIsDragActive(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Not memoized: processFiles must see the current campaign settings and Do-Not-Contact list
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragActive(false);
@@ -162,7 +699,7 @@ const App: React.FC = () => {
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       processFiles(e.dataTransfer.files);
     }
-  }, []);
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -170,25 +707,476 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Export Logic ---
-  const exportToExcel = () => {
-    if (leads.length === 0) return;
-
-    const exportData = leads.map(lead => ({
-      "Full Name": lead.fullName,
-      "Phone Number": lead.phoneNumber,
-      "SMS Message": lead.outreachMessage,
-      "Source File": lead.sourceFile,
-      "Duplicate": lead.isDuplicate ? "Yes" : "No",
-      "Extracted Date": new Date(lead.extractedAt).toLocaleDateString()
+  // --- Message Generation ---
+  // Rewrites messages for existing leads with the current campaign settings,
+  // in small batches so large histories don't hit token limits. A first
+  // text that was sent is the record of what the driver got, so it is kept.
+  const rewriteMessages = async (leadsToRewrite: Lead[], avoidMessages: string[] = []) => {
+    const targets = leadsToRewrite.filter(l => !l.sentAt);
+    if (targets.length === 0) return;
+
+    const profile = activeProfile;
+    const settings = campaignSettings;
+    const ai = aiSettings;
+    const ids = targets.map(l => l.id);
+    setRegeneratingIds(prev => [...prev, ...ids]);
+    setErrorMsg(null);
+
+    try {
+      for (let i = 0; i < targets.length; i += MESSAGE_BATCH_SIZE) {
+        const chunk = targets.slice(i, i + MESSAGE_BATCH_SIZE);
+        const rewritten = await generateOutreachMessages(
+          chunk.map(l => ({ fullName: l.fullName, phoneNumber: l.phoneNumber, extraFields: l.extraFields, language: l.language })),
+          profile,
+          ai,
+          avoidMessages
+        );
+        const messagesById = new Map<string, string>(chunk.map((lead, j) => [lead.id, rewritten[j]?.outreachMessage || ""]));
+        const languagesById = new Map(chunk.map(lead => [lead.id, lead.language]));
+
+        setLeads(prev => prev.map(lead => {
+          const message = messagesById.get(lead.id);
+          // Also skips leads texted while the rewrite ran
+          if (!message || lead.sentAt) return lead;
+          const language = languagesById.get(lead.id) || lead.language;
+          return {
+            ...lead,
+            outreachMessage: message,
+            language,
+            complianceIssues: checkCompliance(message, profile, language),
+            campaignSettings: settings,
+          };
+        }));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg(err.message || "Failed to regenerate messages.");
+    } finally {
+      const idSet = new Set(ids);
+      setRegeneratingIds(prev => prev.filter(id => !idSet.has(id)));
+    }
+  };
+
+  const regenerateMessage = (id: string) => {
+    const lead = leads.find(l => l.id === id);
+    if (lead) rewriteMessages([lead], [lead.outreachMessage]);
+  };
+
+  // The language only changes along with the message, once it is rewritten
+  const changeLeadLanguage = (id: string, language: MessageLanguage) => {
+    const lead = leads.find(l => l.id === id);
+    if (lead && lead.language !== language) rewriteMessages([{ ...lead, language }]);
+  };
+
+  // --- Follow-ups ---
+  // Writes the message for each lead's due follow-up step. Leads are
+  // grouped by campaign and step so each call gets that step's instructions.
+  const writeFollowUps = async (targets: Lead[]) => {
+    const groups = new Map<string, { profile: CampaignProfile; step: number; leads: Lead[] }>();
+    targets.forEach(lead => {
+      const profile = profileFor(lead);
+      const step = getNextFollowUpStep(lead, profile.followUpSteps);
+      if (step === null) return;
+      const key = `${profile.id}:${step}`;
+      if (!groups.has(key)) groups.set(key, { profile, step, leads: [] });
+      groups.get(key)!.leads.push(lead);
+    });
+    if (groups.size === 0) return;
+
+    const ai = aiSettings;
+    const ids = targets.map(l => l.id);
+    setRegeneratingIds(prev => [...prev, ...ids]);
+    setErrorMsg(null);
+
+    try {
+      for (const { profile, step, leads: group } of groups.values()) {
+        const followUp: FollowUpContext = { ...profile.followUpSteps[step - 1], step, totalSteps: profile.followUpSteps.length };
+        for (let i = 0; i < group.length; i += MESSAGE_BATCH_SIZE) {
+          const chunk = group.slice(i, i + MESSAGE_BATCH_SIZE);
+          const written = await generateOutreachMessages(
+            chunk.map(l => ({
+              fullName: l.fullName,
+              phoneNumber: l.phoneNumber,
+              extraFields: l.extraFields,
+              language: l.language,
+              previousMessages: getSentMessages(l),
+            })),
+            profile,
+            ai,
+            [],
+            followUp
+          );
+          const messagesById = new Map<string, string>(chunk.map((lead, j) => [lead.id, written[j]?.outreachMessage || ""]));
+
+          setLeads(prev => prev.map(lead => {
+            const message = messagesById.get(lead.id);
+            if (!message) return lead;
+            const entry: FollowUpMessage = { step, message, complianceIssues: checkCompliance(message, profile, lead.language) };
+            const followUps = [...(lead.followUps || []).filter(f => f.step !== step), entry].sort((a, b) => a.step - b.step);
+            return { ...lead, followUps };
+          }));
+        }
+      }
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg(err.message || "Failed to write follow-up messages.");
+    } finally {
+      const idSet = new Set(ids);
+      setRegeneratingIds(prev => prev.filter(id => !idSet.has(id)));
+    }
+  };
+
+  // --- Message Variety ---
+  // Rewrites only the messages flagged as too similar, steering away from the rest of the batch
+  const regenerateSimilarMessages = () => {
+    if (!similarityReport || similarityReport.flaggedIds.length === 0) return;
+
+    const flaggedSet = new Set(similarityReport.flaggedIds);
+    const batchIdSet = new Set(lastBatchIds);
+    const keptMessages = leads
+      .filter(l => batchIdSet.has(l.id) && !flaggedSet.has(l.id))
+      .map(l => l.outreachMessage)
+      .slice(0, 25);
+
+    rewriteMessages(leads.filter(l => flaggedSet.has(l.id)), keptMessages);
+  };
+
+  // --- Row Editing & Actions ---
+  // Returns an error message when the edit is rejected
+  const updateLead = (id: string, edit: LeadEdit): string | null => {
+    const lead = leads.find(l => l.id === id);
+    if (!lead) return null;
+
+    const updated: Lead = { ...lead };
+
+    if (edit.fullName !== undefined) {
+      const fullName = edit.fullName.replace(/\s+/g, ' ').trim();
+      if (!fullName) return "Name cannot be empty.";
+      updated.fullName = fullName;
+      // Typed in by hand, so no longer in doubt
+      if (updated.confidence) updated.confidence = { ...updated.confidence, fullName: 1 };
+    }
+
+    if (edit.phoneNumber !== undefined) {
+      const phone = normalizePhone(edit.phoneNumber);
+      if (!phone.isValid || !phone.e164) return phone.issue || "Invalid phone number.";
+      updated.phoneNumber = phone.display;
+      updated.phoneE164 = phone.e164;
+      updated.phoneWarning = phone.issue;
+      updated.isSuppressed = suppressedSet.has(phone.e164);
+      if (updated.confidence) updated.confidence = { ...updated.confidence, phoneNumber: 1 };
+    }
+
+    if (edit.outreachMessage !== undefined) {
+      if (lead.sentAt) return "This text was already sent, so it can't be changed.";
+      // Check against the profile the message was written for
+      const profile = profileFor(lead);
+      updated.outreachMessage = edit.outreachMessage.trim();
+      updated.complianceIssues = checkCompliance(updated.outreachMessage, profile, updated.language);
+    }
+
+    setLeads(prev => applyDuplicateFlags(prev.map(l => (l.id === id ? updated : l))));
+    return null;
+  };
+
+  const deleteLeads = (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (ids.length > 1 && !window.confirm(`Delete ${ids.length} leads?`)) return;
+    const idSet = new Set(ids);
+    setLeads(prev => applyDuplicateFlags(prev.filter(l => !idSet.has(l.id))));
+  };
+
+  const toggleDuplicate = (id: string) => {
+    setLeads(prev => applyDuplicateFlags(prev.map(l => (l.id === id ? { ...l, duplicateOverride: l.status !== 'duplicate' } : l))));
+  };
+
+  const resolveDuplicate = (id: string, isDuplicate: boolean) => {
+    setLeads(prev => applyDuplicateFlags(prev.map(l => (l.id === id ? { ...l, duplicateOverride: isDuplicate } : l))));
+  };
+
+  const mergeDuplicate = (keepId: string, dropId: string) => {
+    setLeads(prev => mergeLeads(prev, keepId, dropId));
+  };
+
+  const approveLead = (id: string) => {
+    const reviewedAt = new Date().toISOString();
+    setLeads(prev => prev.map(l => (l.id === id ? { ...l, reviewedAt } : l)));
+  };
+
+  // --- Campaign Profiles ---
+  const persistProfiles = (changed: CampaignProfile[]) => {
+    saveProfiles(changed).catch(err => {
+      console.error(err);
+      setErrorMsg("Failed to save campaign profile.");
+    });
+  };
+
+  const updateActiveProfile = (patch: Partial<CampaignProfile>) => {
+    const updated = { ...activeProfile, ...patch, updatedAt: new Date().toISOString() };
+    setProfiles(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    persistProfiles([updated]);
+  };
+
+  const addProfile = (profile: CampaignProfile) => {
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    persistProfiles([profile]);
+  };
+
+  const removeActiveProfile = async () => {
+    if (profiles.length <= 1) return;
+    if (!window.confirm(`Delete the "${activeProfile.name}" campaign profile?`)) return;
+    try {
+      await deleteProfile(activeProfile.id);
+      const remaining = profiles.filter(p => p.id !== activeProfile.id);
+      setProfiles(remaining);
+      setActiveProfileId(remaining[0].id);
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg("Failed to delete campaign profile.");
+    }
+  };
+
+  const downloadProfiles = () => {
+    const blob = new Blob([exportProfiles(profiles)], { type: "application/json" });
+    downloadBlob(blob, `Campaign_Profiles_${new Date().toISOString().split('T')[0]}.json`);
+  };
+
+  const importProfiles = (text: string) => {
+    try {
+      const imported = parseImportedProfiles(text);
+      const importedIds = new Set(imported.map(p => p.id));
+      setProfiles(prev => [...prev.filter(p => !importedIds.has(p.id)), ...imported]);
+      setActiveProfileId(imported[0].id);
+      persistProfiles(imported);
+      setErrorMsg(null);
+    } catch (err: any) {
+      setErrorMsg(err.message || "Failed to import campaign profiles.");
+    }
+  };
+
+  // --- Do-Not-Contact List ---
+  // Numbers already on the list keep their original entry
+  const suppressNumbers = async (numbers: string[], source: string) => {
+    const addedAt = new Date().toISOString();
+    const entries = numbers.map(phoneE164 => ({ phoneE164, addedAt, source }));
+
+    try {
+      await addSuppressedNumbers(entries);
+      setSuppressedNumbers(prev => {
+        const existing = new Set(prev.map(n => n.phoneE164));
+        const added = entries.filter(e => !existing.has(e.phoneE164));
+        return added.length > 0 ? [...prev, ...added] : prev;
+      });
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg("Failed to save the Do-Not-Contact list.");
+    }
+  };
+
+  const addSuppression = async (text: string, source: string) => {
+    const numbers = findPhoneNumbers(text);
+    if (numbers.length === 0) {
+      setErrorMsg(`No valid phone numbers found in ${source === "Pasted" ? "the pasted text" : source}.`);
+      return;
+    }
+    setErrorMsg(null);
+    await suppressNumbers(numbers, source);
+  };
+
+  const removeSuppression = async (phoneE164: string) => {
+    try {
+      await removeSuppressedNumber(phoneE164);
+      setSuppressedNumbers(prev => prev.filter(n => n.phoneE164 !== phoneE164));
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg("Failed to update the Do-Not-Contact list.");
+      return;
+    }
+    if (smsGatewayName === null) return;
+    try {
+      await syncSuppression({ remove: [phoneE164] }, smsSettings.accessKey);
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg("The number was removed here, but the app server still won't text it. Try again once it can be reached.");
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!window.confirm("Delete all saved leads? Future uploads will no longer be checked against them.")) return;
+    try {
+      await clearLeads();
+      if (savedLeadsRef.current) savedLeadsRef.current = [];
+      setLeads([]);
+      sources.forEach(source => source.kind !== 'text' && URL.revokeObjectURL(source.url));
+      setSources(new Map());
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg("Failed to clear lead history.");
+    }
+  };
+
+  // --- Replies ---
+  // Moves matched leads along the pipeline and puts every STOP on the
+  // Do-Not-Contact list, whether or not the number matched a lead.
+  const ingestReplies = (replies: InboundReply[], optOutSource: string) => {
+    const { matchedCount, unmatched, optOutNumbers } = applyReplies(leadsRef.current, replies);
+    setLeads(prev => applyReplies(prev, replies).leads);
+    if (optOutNumbers.length > 0) suppressNumbers(optOutNumbers, optOutSource);
+
+    const counts = new Map<string, number>();
+    replies.forEach(reply => {
+      const label = REPLY_CATEGORY_LABELS[classifyReply(reply.body)];
+      counts.set(label, (counts.get(label) || 0) + 1);
+    });
+    const breakdown = Array.from(counts, ([label, count]) => `${count} ${label.toLowerCase()}`).join(", ");
+    setReplyNotice(
+      `${replies.length} repl${replies.length === 1 ? "y" : "ies"} (${breakdown}) at ${new Date().toLocaleTimeString()}: ` +
+      `${matchedCount} matched to leads` +
+      (unmatched.length > 0 ? `, ${unmatched.length} from numbers not in the lead list.` : ".")
+    );
+  };
+
+  const importReplyLog = async (file: File) => {
+    try {
+      const replies = await parseReplyLog(file);
+      if (replies.length === 0) {
+        setErrorMsg(`No replies found in ${file.name}.`);
+        return;
+      }
+      setErrorMsg(null);
+      ingestReplies(replies, file.name);
+    } catch (err: any) {
+      console.error(err);
+      setErrorMsg(err.message || `Failed to read ${file.name}.`);
+    }
+  };
+
+  // --- SMS Sending ---
+  const updateLeadSendStatus = (id: string, changes: Partial<Lead>) => {
+    setLeads(prev => prev.map(lead => (lead.id === id ? { ...lead, ...changes } : lead)));
+  };
+
+  // A sent follow-up moves the lead on to the next step of its sequence
+  const recordFollowUpSend = (id: string, step: number, result: SmsSendResult) => {
+    const sentAt = new Date().toISOString();
+    setLeads(prev => prev.map(lead => {
+      if (lead.id !== id) return lead;
+      if (result.status === 'failed') return { ...lead, sendStatus: 'failed', sendError: result.error };
+      return {
+        ...lead,
+        sendStatus: result.status,
+        sendError: undefined,
+        smsMessageId: result.id || undefined,
+        smsMessageStep: step,
+        sentAt,
+        followUps: lead.followUps?.map(f => (f.step === step ? { ...f, sentAt } : f)),
+      };
     }));
+  };
 
-    const worksheet = XLSX.utils.json_to_sheet(exportData);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Cold Leads");
+  // Sends today's texts one at a time at the configured rate: first texts,
+  // then due follow-ups. Stops on request, when quiet hours begin, or if
+  // the server can't be reached; unsent texts stay due for the next run.
+  // Each lead is looked up again before its text goes out, so a STOP reply,
+  // a new Do-Not-Contact entry or a deletion during a long run is respected.
+  const sendMessages = async () => {
+    const queue = dueTexts;
+    const settings = smsSettings;
+    if (queue.length === 0) return;
+    if (isQuietHours(settings)) {
+      setErrorMsg("It's quiet hours. Texts can't be sent right now.");
+      return;
+    }
+
+    const queuedIds = new Set(queue.map(text => text.lead.id));
+    setLeads(prev => prev.map(lead =>
+      // The old id is dropped so the previous text's status isn't polled as this one's
+      queuedIds.has(lead.id) ? { ...lead, sendStatus: 'queued', sendError: undefined, smsMessageId: undefined, smsMessageStep: undefined } : lead
+    ));
+    setErrorMsg(null);
+    stopSendingRef.current = false;
+    setSendProgress({ done: 0, total: queue.length });
+
+    const intervalMs = 60000 / Math.max(1, settings.messagesPerMinute);
+    // Alaska, Hawaii and territory numbers whose quiet hours run later than the mainland's
+    let heldBack = 0;
+
+    try {
+      for (let i = 0; i < queue.length; i++) {
+        if (stopSendingRef.current) break;
+        if (isQuietHours(settings)) {
+          setErrorMsg(`Quiet hours started. ${queue.length - i} text(s) are still queued.`);
+          break;
+        }
+
+        const { step } = queue[i];
+        const lead = leadsRef.current.find(l => l.id === queue[i].lead.id);
+        const message = getMessageToSend(lead, step, lead ? profileFor(lead).followUpSteps : []);
+        if (!lead || !message) {
+          setSendProgress({ done: i + 1, total: queue.length });
+          continue;
+        }
+        if (isQuietHours(settings, new Date(), lead.phoneE164)) {
+          heldBack++;
+          setSendProgress({ done: i + 1, total: queue.length });
+          continue;
+        }
+
+        const result = await sendSms(lead.phoneE164, message, settings.accessKey);
+        if (step > 0) {
+          recordFollowUpSend(lead.id, step, result);
+        } else {
+          const sentAt = result.status === 'failed' ? undefined : new Date().toISOString();
+          updateLeadSendStatus(lead.id, {
+            status: result.status === 'failed' ? lead.status : 'contacted',
+            sendStatus: result.status,
+            sendError: result.error,
+            smsMessageId: result.id || undefined,
+            smsMessageStep: 0,
+            sentAt,
+            sequenceStartedAt: sentAt,
+          });
+        }
+        setSendProgress({ done: i + 1, total: queue.length });
+
+        if (i < queue.length - 1) await new Promise(resolve => setTimeout(resolve, intervalMs));
+      }
+      if (heldBack > 0) {
+        setErrorMsg(prev => prev ?? `${heldBack} text(s) were held back because it's quiet hours where the recipient is. They stay due.`);
+      }
+    } catch (err: any) {
+      console.error("SMS sending stopped:", err);
+      setErrorMsg(err.message || "Sending stopped: the app server could not be reached.");
+    } finally {
+      setSendProgress(null);
+    }
+  };
+
+  // --- Export Logic ---
+  // Due follow-ups are exported with the follow-up as the message
+  const dueLeads = dueTexts.map(({ lead, message }) => ({ ...lead, outreachMessage: message }));
+
+  const exportLeads = (options: ExportOptions, columns: ExportColumn[]) => {
+    const selectedIds = new Set(exportSelection || []);
+    const scopeLeads =
+      options.scope === 'selected' ? leads.filter(l => selectedIds.has(l.id))
+      : options.scope === 'filtered' ? visibleLeads
+      : options.scope === 'due' ? dueLeads
+      : leads;
+    const { main, duplicates } = selectExportLeads(scopeLeads, options);
+    if (main.length + duplicates.length === 0) return;
 
     const dateStr = new Date().toISOString().split('T')[0];
-    XLSX.writeFile(workbook, `Cold_Leads_${dateStr}.xlsx`);
+    buildExportFiles(main, duplicates, columns, options.format, `Cold_Leads_${dateStr}`, extraFields)
+      .forEach(file => downloadBlob(file.blob, file.name));
+    saveExportOptions(options);
+    setExportSelection(null);
+  };
+
+  const exportAuditLog = (format: 'csv' | 'json') => {
+    const file = buildAuditLogFile(auditLog, format);
+    downloadBlob(file.blob, file.name);
   };
 
   return (
@@ -210,13 +1198,32 @@ const App: React.FC = () => {
 
           <div className="flex gap-4">
             <div className="glass px-4 py-2 rounded-lg flex flex-col items-center min-w-[100px]">
-                <span className="text-xs text-slate-400 uppercase tracking-wide">Total</span>
+                <span className="text-xs text-slate-400 uppercase tracking-wide">{filterActive ? 'Shown' : 'Total'}</span>
                 <span className="text-2xl font-bold text-white">{totalLeads}</span>
             </div>
              <div className="glass px-4 py-2 rounded-lg flex flex-col items-center min-w-[100px] border-l-4 border-l-emerald-500">
                 <span className="text-xs text-slate-400 uppercase tracking-wide">New</span>
                 <span className="text-2xl font-bold text-emerald-400">{newLeads}</span>
             </div>
+            {similarityReport && (
+              <div
+                className={`glass px-4 py-2 rounded-lg flex flex-col items-center min-w-[100px] border-l-4 ${
+                  similarityReport.flaggedIds.length > 0 ? 'border-l-accent-orange' : 'border-l-accent-cyan'
+                }`}
+                title="Message variety of the last upload (100 = no shared phrasing)"
+              >
+                  <span className="text-xs text-slate-400 uppercase tracking-wide">Variety</span>
+                  <span className={`text-2xl font-bold ${similarityReport.flaggedIds.length > 0 ? 'text-accent-orange' : 'text-accent-cyan'}`}>
+                    {similarityReport.varietyScore}
+                  </span>
+              </div>
+            )}
+            {suppressedCount > 0 && (
+              <div className="glass px-4 py-2 rounded-lg flex flex-col items-center min-w-[100px] border-l-4 border-l-red-500">
+                  <span className="text-xs text-slate-400 uppercase tracking-wide">Opted Out</span>
+                  <span className="text-2xl font-bold text-red-400">{suppressedCount}</span>
+              </div>
+            )}
           </div>
         </header>
 
@@ -224,36 +1231,33 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 gap-8">
           
           {/* Campaign Config */}
-          <div className="glass-card p-6 rounded-2xl border border-white/5">
-            <div className="flex items-center gap-2 mb-4 text-white font-medium">
-                <Settings className="w-4 h-4 text-accent-cyan" />
-                <h2>Campaign Settings (Optional)</h2>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                    <label className="block text-xs text-slate-400 uppercase tracking-wide mb-2">Sender Name</label>
-                    <input 
-                        type="text" 
-                        value={senderName}
-                        onChange={(e) => setSenderName(e.target.value)}
-                        placeholder="e.g. Paul" 
-                        className="w-full bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors"
-                    />
-                    <p className="text-[10px] text-slate-500 mt-1">If empty, messages will not have a sender name.</p>
-                </div>
-                <div>
-                    <label className="block text-xs text-slate-400 uppercase tracking-wide mb-2">Company Name</label>
-                    <input 
-                        type="text" 
-                        value={companyName}
-                        onChange={(e) => setCompanyName(e.target.value)}
-                        placeholder="e.g. TLG" 
-                        className="w-full bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors"
-                    />
-                     <p className="text-[10px] text-slate-500 mt-1">If empty, messages will not mention a company.</p>
-                </div>
-            </div>
-          </div>
+          <CampaignSettingsPanel
+            profiles={profiles}
+            activeProfile={activeProfile}
+            onSelect={setActiveProfileId}
+            onChange={updateActiveProfile}
+            onCreate={() => addProfile(createProfile("New Campaign"))}
+            onDuplicate={() => addProfile(createProfile(`${activeProfile.name} (Copy)`, activeProfile))}
+            onDelete={removeActiveProfile}
+            onExport={downloadProfiles}
+            onImport={importProfiles}
+          />
+
+          {/* AI Provider */}
+          <AiSettingsPanel
+            settings={aiSettings}
+            onChange={(patch) => setAiSettings(prev => ({ ...prev, ...patch }))}
+          />
+
+          {/* Extra Extraction Fields */}
+          <ExtraFieldsPanel fields={extraFields} onChange={setExtraFields} />
+
+          {/* Opt-out Suppression */}
+          <SuppressionPanel
+            numbers={suppressedNumbers}
+            onAdd={addSuppression}
+            onRemove={removeSuppression}
+          />
 
           {/* Upload Zone */}
           <div 
@@ -266,7 +1270,7 @@ const App: React.FC = () => {
               ${isDragActive 
                 ? 'border-accent-cyan bg-accent-cyan/10 scale-[1.01]' 
                 : 'border-slate-600 hover:border-slate-400 bg-navy-800/50'}
-              ${status === ProcessingStatus.PROCESSING ? 'opacity-50 pointer-events-none' : ''}
+              ${status === ProcessingStatus.PROCESSING || !historyLoaded ? 'opacity-50 pointer-events-none' : ''}
             `}
           >
              <input 
@@ -274,8 +1278,8 @@ const App: React.FC = () => {
                 multiple
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 onChange={handleInputChange}
-                accept=".csv, .txt, image/png, image/jpeg, image/jpg"
-                disabled={status === ProcessingStatus.PROCESSING}
+                accept=".csv, .txt, .xlsx, .xls, .pdf, application/pdf, image/png, image/jpeg, image/jpg"
+                disabled={status === ProcessingStatus.PROCESSING || !historyLoaded}
              />
              
              {status === ProcessingStatus.PROCESSING ? (
@@ -293,11 +1297,23 @@ const App: React.FC = () => {
                     </div>
                  </div>
                  <h3 className="text-lg font-medium text-white mb-1">Upload Driver Lists</h3>
-                 <p className="text-slate-400 text-sm">Drag & drop up to 10 files (Images or CSV)</p>
+                 <p className="text-slate-400 text-sm">Drag & drop any number of files (Images, CSV, Excel or PDF)</p>
                </>
              )}
           </div>
 
+          {/* File Queue */}
+          <JobPanel
+            jobs={jobs}
+            canRetry={status !== ProcessingStatus.PROCESSING}
+            onRetry={(id) => retryJobs([id])}
+            onRetryFailed={() => retryJobs(jobs.filter(job => job.state === 'failed').map(job => job.id))}
+            onClear={clearFinishedJobs}
+          />
+
+          {/* Audit Log */}
+          <AuditLogPanel entries={auditLog} onExport={exportAuditLog} />
+
           {/* Error Message */}
           {errorMsg && (
             <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl flex items-center gap-3 animate-in slide-in-from-top-2">
@@ -306,25 +1322,211 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {/* Campaign Settings Changed */}
+          {outdatedLeads.length > 0 && (
+            <div className="bg-accent-cyan/5 border border-accent-cyan/20 text-accent-cyan p-4 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <Settings className="w-5 h-5 shrink-0" />
+                    <span>{outdatedLeads.length} message(s) were written with different campaign settings.</span>
+                </div>
+                <button
+                    onClick={() => rewriteMessages(outdatedLeads)}
+                    disabled={isRegenerating}
+                    className="flex items-center gap-2 bg-accent-cyan/10 hover:bg-accent-cyan/20 disabled:opacity-50 px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                >
+                    <RefreshCw className={`w-4 h-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+                    {isRegenerating ? 'Rewriting...' : 'Rewrite All Messages'}
+                </button>
+            </div>
+          )}
+
+          {/* Needs Review */}
+          {reviewQueue.length > 0 && (
+            <div className="bg-accent-orange/10 border border-accent-orange/20 text-accent-orange p-4 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <ScanSearch className="w-5 h-5 shrink-0" />
+                    <span>{reviewQueue.length} lead(s) were read with low confidence. Check them against the source before they can be exported.</span>
+                </div>
+                <button
+                    onClick={() => setReviewIds(reviewQueue.map(l => l.id))}
+                    className="flex items-center gap-2 bg-accent-orange/20 hover:bg-accent-orange/30 px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                >
+                    Review Leads
+                </button>
+            </div>
+          )}
+
+          {/* Possible Duplicates */}
+          {duplicatePairs.length > 0 && (
+            <div className="bg-accent-orange/10 border border-accent-orange/20 text-accent-orange p-4 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <Users className="w-5 h-5 shrink-0" />
+                    <span>{duplicatePairs.length} lead(s) may be the same person as an earlier lead (similar name or shared number).</span>
+                </div>
+                <button
+                    onClick={() => setShowDuplicateReview(true)}
+                    className="flex items-center gap-2 bg-accent-orange/20 hover:bg-accent-orange/30 px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                >
+                    Review Matches
+                </button>
+            </div>
+          )}
+
+          {/* Follow-ups Due */}
+          {followUpsToWrite.length > 0 && (
+            <div className="bg-accent-cyan/10 border border-accent-cyan/20 text-accent-cyan p-4 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <CalendarClock className="w-5 h-5 shrink-0" />
+                    <span>{followUpsToWrite.length} follow-up(s) are due today. Write them, then send or export today's texts.</span>
+                </div>
+                <button
+                    onClick={() => writeFollowUps(followUpsToWrite)}
+                    disabled={isRegenerating}
+                    className="flex items-center gap-2 bg-accent-cyan/20 hover:bg-accent-cyan/30 disabled:opacity-50 px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                >
+                    {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquarePlus className="w-4 h-4" />}
+                    Write Follow-ups
+                </button>
+            </div>
+          )}
+
+          {/* Similar Message Warning */}
+          {similarityReport && similarityReport.flaggedIds.length > 0 && (
+            <div className="bg-accent-orange/10 border border-accent-orange/20 text-accent-orange p-4 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <Shuffle className="w-5 h-5 shrink-0" />
+                    <span>
+                      {similarityReport.flaggedIds.length} message(s) in the last upload look too much like others
+                      ({similarityReport.clusters.length} group{similarityReport.clusters.length === 1 ? '' : 's'}). Carriers may flag them as templated.
+                    </span>
+                </div>
+                <button
+                    onClick={regenerateSimilarMessages}
+                    disabled={isRegenerating}
+                    className="flex items-center gap-2 bg-accent-orange/20 hover:bg-accent-orange/30 disabled:opacity-50 px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                >
+                    <RefreshCw className={`w-4 h-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+                    {isRegenerating ? 'Rewriting...' : 'Regenerate Flagged'}
+                </button>
+            </div>
+          )}
+
           {/* Controls & Table */}
           <div className="space-y-4">
              <div className="flex justify-between items-end">
                 <h2 className="text-xl font-semibold text-white">Extracted Leads</h2>
                 
                 {leads.length > 0 && (
-                    <button 
-                        onClick={exportToExcel}
-                        className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-5 py-2.5 rounded-lg font-medium shadow-lg shadow-emerald-900/50 transition-all active:translate-y-0.5"
-                    >
-                        <FileSpreadsheet className="w-5 h-5" />
-                        Export to Excel
-                    </button>
+                    <div className="flex gap-3 items-center">
+                        <button 
+                            onClick={clearHistory}
+                            className="flex items-center gap-2 bg-navy-700 hover:bg-red-900/40 text-slate-300 hover:text-red-300 px-4 py-2.5 rounded-lg font-medium border border-white/10 transition-all active:translate-y-0.5"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            Clear History
+                        </button>
+                        <button 
+                            onClick={() => setExportSelection([])}
+                            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-5 py-2.5 rounded-lg font-medium shadow-lg shadow-emerald-900/50 transition-all active:translate-y-0.5"
+                        >
+                            <FileSpreadsheet className="w-5 h-5" />
+                            Export
+                        </button>
+                    </div>
                 )}
              </div>
 
-             <LeadTable leads={leads} />
+             {leads.length > 0 && (
+               <SmsSendPanel
+                 settings={smsSettings}
+                 onChange={(patch) => setSmsSettings(prev => ({ ...prev, ...patch }))}
+                 queueCount={dueTexts.length}
+                 gatewayName={smsGatewayName}
+                 isQuietHours={quietHours}
+                 progress={sendProgress}
+                 onSend={sendMessages}
+                 onStop={() => { stopSendingRef.current = true; }}
+               />
+             )}
+
+             {leads.length > 0 && (
+               <RepliesPanel
+                 leads={leads}
+                 notice={replyNotice}
+                 webhookAvailable={smsGatewayName !== null}
+                 onImport={importReplyLog}
+               />
+             )}
+
+             {leads.length > 0 && (
+               <LeadFilterBar filter={filter} sourceFiles={sourceFiles} onChange={setFilter} />
+             )}
+
+             <LeadTable
+                leads={visibleLeads}
+                sort={sort}
+                onSortChange={setSort}
+                isFiltered={filterActive}
+                similarIds={similarityReport?.flaggedIds}
+                regeneratingIds={regeneratingIds}
+                onRegenerateMessage={regenerateMessage}
+                onChangeLanguage={changeLeadLanguage}
+                nextFollowUps={nextFollowUps}
+                onUpdateLead={updateLead}
+                onDeleteLeads={deleteLeads}
+                onToggleDuplicate={toggleDuplicate}
+                leadsById={leadsById}
+                extraFields={extraFields}
+                onExportLeads={setExportSelection}
+                onReviewSource={(id) => setReviewIds([id])}
+             />
           </div>
 
+          {/* Column Mapping Confirmation */}
+          {pendingMapping && (
+            <ColumnMappingModal
+              key={pendingMapping.fileName}
+              fileName={pendingMapping.fileName}
+              sheet={pendingMapping.sheet}
+              initialMapping={pendingMapping.mapping}
+              onConfirm={(mapping) => pendingMapping.resolve({ action: 'local', mapping })}
+              onUseAi={() => pendingMapping.resolve({ action: 'ai' })}
+              onSkip={() => pendingMapping.resolve({ action: 'skip' })}
+            />
+          )}
+
+          {reviewLeads.length > 0 && (
+            <SourceReviewPane
+              leads={reviewLeads}
+              sources={sources}
+              onUpdateLead={updateLead}
+              onApprove={approveLead}
+              onDelete={(id) => deleteLeads([id])}
+              onClose={() => setReviewIds(null)}
+            />
+          )}
+
+          {showDuplicateReview && duplicatePairs.length > 0 && (
+            <DuplicateReviewModal
+              pairs={duplicatePairs}
+              onResolve={resolveDuplicate}
+              onMerge={mergeDuplicate}
+              onClose={() => setShowDuplicateReview(false)}
+            />
+          )}
+
+          {exportSelection && (
+            <ExportDialog
+              allLeads={leads}
+              filteredLeads={visibleLeads}
+              selectedLeads={leads.filter(l => exportSelection.includes(l.id))}
+              dueLeads={dueLeads}
+              extraFields={extraFields}
+              onExport={exportLeads}
+              onClose={() => setExportSelection(null)}
+            />
+          )}
+
         </div>
       </div>
     </div>
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { AiProviderId, AiSettings } from '../types';
+import { AI_PROVIDERS } from '../services/aiProvider';
+import { Cpu, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (patch: Partial<AiSettings>) => void;
+}
+
+const inputClass = "w-full bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors";
+const labelClass = "block text-xs text-slate-400 uppercase tracking-wide mb-2";
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Switching provider also switches to that provider's default model
+  const handleProviderChange = (provider: AiProviderId) => {
+    onChange({ provider, model: AI_PROVIDERS[provider].defaultModel });
+  };
+
+  const handleTemperature = (key: 'extractionTemperature' | 'messageTemperature', value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isNaN(parsed)) onChange({ [key]: Math.min(2, Math.max(0, parsed)) });
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-white font-medium"
+      >
+        <div className="flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-accent-cyan" />
+          <h2>AI Settings</h2>
+          <span className="text-xs text-slate-400 font-normal">
+            ({AI_PROVIDERS[settings.provider].label} · {settings.model})
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Provider</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+              className={inputClass}
+            >
+              {(Object.keys(AI_PROVIDERS) as AiProviderId[]).map(id => (
+                <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>
+              ))}
+            </select>
+            {settings.provider === 'mock' && (
+              <p className="text-[10px] text-slate-500 mt-1">No AI calls are made. Text files are parsed with simple rules and messages come from templates.</p>
+            )}
+          </div>
+          <div>
+            <label className={labelClass}>Model</label>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => onChange({ model: e.target.value })}
+              disabled={settings.provider === 'mock'}
+              className={`${inputClass} disabled:opacity-40`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Extraction Temperature</label>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.extractionTemperature}
+              onChange={(e) => handleTemperature('extractionTemperature', e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Keep low so names and numbers are copied exactly.</p>
+          </div>
+          <div>
+            <label className={labelClass}>Message Temperature</label>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.messageTemperature}
+              onChange={(e) => handleTemperature('messageTemperature', e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Higher values give more varied messages.</p>
+          </div>
+          {settings.provider === 'gemini' && (
+            <div>
+              <label className={labelClass}>Server Access Key</label>
+              <input
+                type="password"
+                value={settings.accessKey}
+                onChange={(e) => onChange({ accessKey: e.target.value })}
+                placeholder="Not needed on this machine"
+                className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">The app server's AI_API_TOKEN. Stored in this browser only.</p>
+            </div>
+          )}
+          {settings.provider === 'openai' && (
+            <>
+              <div>
+                <label className={labelClass}>Server URL</label>
+                <input
+                  type="text"
+                  value={settings.baseUrl}
+                  onChange={(e) => onChange({ baseUrl: e.target.value })}
+                  placeholder="e.g. http://localhost:11434/v1"
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-slate-500 mt-1">Any server with an OpenAI-style /chat/completions endpoint. PDFs are not supported.</p>
+              </div>
+              <div>
+                <label className={labelClass}>API Key</label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => onChange({ apiKey: e.target.value })}
+                  placeholder="Leave empty for local servers"
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-slate-500 mt-1">Stored in this browser only.</p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
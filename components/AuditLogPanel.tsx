@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AuditLogEntry } from '../types';
+import { AI_PROVIDERS } from '../services/aiProvider';
+import { AUDIT_SENT_LABELS, describeRedactionCounts } from '../services/auditLog';
+import { ClipboardList, ChevronDown, ChevronUp, Download } from 'lucide-react';
+
+interface AuditLogPanelProps {
+  entries: AuditLogEntry[];
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+// Older entries are kept and exported, just not listed
+const SHOWN_ENTRIES = 50;
+
+const exportButtonClass = "flex items-center gap-1 text-xs text-slate-300 bg-navy-700 hover:bg-navy-600 disabled:opacity-40 disabled:pointer-events-none border border-white/10 px-3 py-1.5 rounded-lg transition-colors";
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ entries, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-white font-medium"
+      >
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 text-accent-cyan" />
+          <h2>Audit Log</h2>
+          <span className="text-xs text-slate-400 font-normal">({entries.length} file{entries.length === 1 ? "" : "s"} sent)</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <p className="text-xs text-slate-400">
+              Every file sent to an AI model, with the model, the campaign settings and what was redacted.
+              Entries can't be edited and are kept when the lead history is cleared.
+            </p>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => onExport('csv')} disabled={entries.length === 0} className={exportButtonClass}>
+                <Download className="w-3 h-3" />
+                CSV
+              </button>
+              <button onClick={() => onExport('json')} disabled={entries.length === 0} className={exportButtonClass}>
+                <Download className="w-3 h-3" />
+                JSON
+              </button>
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-4">Nothing has been sent yet.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-white/5 rounded-lg border border-white/5">
+              {entries.slice(0, SHOWN_ENTRIES).map(entry => {
+                const redacted = describeRedactionCounts(entry.redactions);
+                return (
+                  <li key={entry.id} className="px-3 py-2 text-sm space-y-0.5">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-slate-200 truncate" title={entry.fileName}>{entry.fileName}</span>
+                      <span className="text-xs text-slate-500 whitespace-nowrap">{new Date(entry.sentAt).toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {AI_PROVIDERS[entry.provider]?.label || entry.provider} · {entry.model} · {AUDIT_SENT_LABELS[entry.sent]} · {entry.campaign.profileName}
+                    </div>
+                    <div className={`text-xs ${entry.error ? 'text-red-400' : 'text-slate-500'}`}>
+                      {entry.error ? `Failed: ${entry.error}` : `${entry.leadCount} lead${entry.leadCount === 1 ? "" : "s"} returned`}
+                      {redacted && <span className="text-slate-500"> · Redacted {redacted}</span>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { CampaignProfile, FollowUpStep, LanguageSetting } from '../types';
+import { LANGUAGE_SETTING_LABELS } from '../services/messageLanguage';
+import { MAX_FOLLOW_UP_STEPS } from '../services/followUps';
+import { Settings, Plus, Copy, Trash2, Download, Upload, ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface CampaignSettingsPanelProps {
+  profiles: CampaignProfile[];
+  activeProfile: CampaignProfile;
+  onSelect: (id: string) => void;
+  onChange: (patch: Partial<CampaignProfile>) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+}
+
+const inputClass = "w-full bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors";
+const labelClass = "block text-xs text-slate-400 uppercase tracking-wide mb-2";
+const iconButtonClass = "p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 text-slate-300 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const CampaignSettingsPanel: React.FC<CampaignSettingsPanelProps> = ({
+  profiles,
+  activeProfile,
+  onSelect,
+  onChange,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const [showProfile, setShowProfile] = useState(false);
+
+  const steps = activeProfile.followUpSteps;
+  const updateStep = (index: number, patch: Partial<FollowUpStep>) => {
+    onChange({ followUpSteps: steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+  };
+  // Days can be typed in any order; the sequence is put back in order afterwards
+  const sortSteps = () => {
+    onChange({ followUpSteps: [...steps].sort((a, b) => a.delayDays - b.delayDays) });
+  };
+  const addStep = () => {
+    const lastDay = steps.length > 0 ? steps[steps.length - 1].delayDays : 0;
+    onChange({ followUpSteps: [...steps, { delayDays: lastDay + 3, instructions: "" }] });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => onImport(reader.result as string);
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <Settings className="w-4 h-4 text-accent-cyan" />
+          <h2>Campaign Settings</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeProfile.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="bg-navy-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-accent-cyan/50 transition-colors"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <button onClick={onCreate} className={iconButtonClass} title="New profile">
+            <Plus className="w-4 h-4" />
+          </button>
+          <button onClick={onDuplicate} className={iconButtonClass} title="Duplicate profile">
+            <Copy className="w-4 h-4" />
+          </button>
+          <button onClick={onDelete} disabled={profiles.length <= 1} className={iconButtonClass} title="Delete profile">
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button onClick={onExport} className={iconButtonClass} title="Export profiles">
+            <Download className="w-4 h-4" />
+          </button>
+          <label className={`${iconButtonClass} cursor-pointer`} title="Import profiles">
+            <Upload className="w-4 h-4" />
+            <input type="file" accept=".json, application/json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+              <label className={labelClass}>Sender Name</label>
+              <input
+                  type="text"
+                  value={activeProfile.senderName}
+                  onChange={(e) => onChange({ senderName: e.target.value })}
+                  placeholder="e.g. Paul"
+                  className={inputClass}
+              />
+              <p className="text-[10px] text-slate-500 mt-1">If empty, messages will not have a sender name.</p>
+          </div>
+          <div>
+              <label className={labelClass}>Company Name</label>
+              <input
+                  type="text"
+                  value={activeProfile.companyName}
+                  onChange={(e) => onChange({ companyName: e.target.value })}
+                  placeholder="e.g. TLG"
+                  className={inputClass}
+              />
+               <p className="text-[10px] text-slate-500 mt-1">If empty, messages will not mention a company.</p>
+          </div>
+      </div>
+
+      <button
+        onClick={() => setShowProfile(!showProfile)}
+        className="mt-4 flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        {showProfile ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        {showProfile ? "Hide message profile" : "Edit message profile (jobs, tone, examples)"}
+      </button>
+
+      {showProfile && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Profile Name</label>
+            <input
+              type="text"
+              value={activeProfile.name}
+              onChange={(e) => onChange({ name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Role</label>
+            <input
+              type="text"
+              value={activeProfile.roleDescription}
+              onChange={(e) => onChange({ roleDescription: e.target.value })}
+              placeholder="e.g. CDL, reefer, flatbed, warehouse"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Job Offerings (one per line)</label>
+            <textarea
+              value={activeProfile.jobOfferings.join('\n')}
+              onChange={(e) => onChange({ jobOfferings: e.target.value.split('\n') })}
+              rows={4}
+              className={`${inputClass} resize-none text-sm`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Tone</label>
+            <textarea
+              value={activeProfile.tone}
+              onChange={(e) => onChange({ tone: e.target.value })}
+              rows={4}
+              className={`${inputClass} resize-none text-sm`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Call to Action</label>
+            <input
+              type="text"
+              value={activeProfile.callToAction}
+              onChange={(e) => onChange({ callToAction: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Required Ending</label>
+            <input
+              type="text"
+              value={activeProfile.optOutSuffix}
+              onChange={(e) => onChange({ optOutSuffix: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Every message must end with this opt-out text.</p>
+          </div>
+          <div>
+            <label className={labelClass}>Message Language</label>
+            <select
+              value={activeProfile.language}
+              onChange={(e) => onChange({ language: e.target.value as LanguageSetting })}
+              className={inputClass}
+            >
+              {(Object.keys(LANGUAGE_SETTING_LABELS) as LanguageSetting[]).map(language => (
+                <option key={language} value={language}>{LANGUAGE_SETTING_LABELS[language]}</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-slate-500 mt-1">
+              Auto-detect guesses from the lead's details, file name and surname. Any lead can be switched in the table.
+            </p>
+          </div>
+          <div>
+            <label className={labelClass}>Required Ending (Spanish)</label>
+            <input
+              type="text"
+              value={activeProfile.spanishOptOutSuffix}
+              onChange={(e) => onChange({ spanishOptOutSuffix: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Opt-out text that ends messages written in Spanish. Avoid á, í, ó and ú: they cut the length limit in half.</p>
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>Example Messages (one per line)</label>
+            <textarea
+              value={activeProfile.exampleMessages.join('\n')}
+              onChange={(e) => onChange({ exampleMessages: e.target.value.split('\n') })}
+              rows={5}
+              className={`${inputClass} resize-none text-sm`}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Used as a style reference only. Use [Name] for the driver's name, and [Sender] and [Company] for yours; examples with those are skipped while they're empty.</p>
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>Follow-up Sequence</label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm text-slate-400">
+                <span className="w-24 shrink-0">Day 0</span>
+                <span>First text (the message in the table)</span>
+              </div>
+              {steps.map((step, index) => (
+                <div key={index} className="flex flex-col md:flex-row gap-2 md:items-start">
+                  <div className="flex items-center gap-2 md:w-24 shrink-0">
+                    <span className="text-sm text-slate-400">Day</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={step.delayDays}
+                      onChange={(e) => {
+                        const days = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(days)) updateStep(index, { delayDays: Math.max(1, days) });
+                      }}
+                      onBlur={sortSteps}
+                      className={`${inputClass} px-2 py-2 text-sm`}
+                    />
+                  </div>
+                  <textarea
+                    value={step.instructions}
+                    onChange={(e) => updateStep(index, { instructions: e.target.value })}
+                    placeholder="What this text should do, e.g. a short check-in that pitches a different job type"
+                    rows={2}
+                    className={`${inputClass} resize-none text-sm`}
+                  />
+                  <button
+                    onClick={() => onChange({ followUpSteps: steps.filter((_, i) => i !== index) })}
+                    title="Remove step"
+                    className="p-2 rounded-md text-slate-400 hover:text-red-400 hover:bg-white/5 transition-colors self-end md:self-center"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addStep}
+                disabled={steps.length >= MAX_FOLLOW_UP_STEPS}
+                className="flex items-center gap-2 text-xs text-accent-cyan hover:text-white disabled:opacity-40 disabled:pointer-events-none transition-colors"
+              >
+                <Plus className="w-3 h-3" />
+                Add Follow-up
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">
+              Follow-ups go only to contacted leads who haven't replied or opted out. Each one follows the same variety and opt-out rules as the first text.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignSettingsPanel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ColumnMapping, SheetData } from '../types';
+import { applyColumnMapping, isMappingComplete } from '../services/spreadsheetParser';
+import { Table, X, Sparkles } from 'lucide-react';
+
+interface ColumnMappingModalProps {
+  fileName: string;
+  sheet: SheetData;
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onUseAi: () => void;
+  onSkip: () => void;
+}
+
+const FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: 'nameColumn', label: 'Full Name' },
+  { key: 'firstNameColumn', label: 'First Name' },
+  { key: 'lastNameColumn', label: 'Last Name' },
+  { key: 'phoneColumn', label: 'Phone Number' },
+];
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ fileName, sheet, initialMapping, onConfirm, onUseAi, onSkip }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const preview = applyColumnMapping({ ...sheet, rows: sheet.rows.slice(0, PREVIEW_ROWS) }, mapping);
+  const totalRows = isMappingComplete(mapping) ? applyColumnMapping(sheet, mapping).length : 0;
+
+  const updateField = (key: keyof ColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: value === '' ? null : Number(value) }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-navy-800 border border-white/10 rounded-2xl shadow-2xl max-w-2xl w-full overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-navy-900">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <Table className="w-4 h-4 text-accent-cyan" />
+            Confirm Columns: <span className="text-slate-300 font-normal truncate max-w-[260px]" title={fileName}>{fileName}</span>
+          </h3>
+          <button
+            onClick={onSkip}
+            className="text-slate-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-slate-400">
+            This spreadsheet has headers, so names and numbers can be read directly without AI.
+            Only the SMS messages will be written by Gemini.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs text-slate-400 uppercase tracking-wide mb-2">{field.label}</label>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  className="w-full bg-navy-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-accent-cyan/50 transition-colors"
+                >
+                  <option value="">— None —</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">Full Name takes priority. Leave it empty to combine First and Last Name.</p>
+
+          <div className="rounded-lg border border-white/5 overflow-hidden">
+            <table className="w-full text-left text-sm text-slate-300">
+              <thead className="bg-navy-900 text-slate-100 uppercase text-xs font-semibold tracking-wider">
+                <tr>
+                  <th className="px-4 py-2">Full Name</th>
+                  <th className="px-4 py-2">Phone Number</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {preview.length === 0 ? (
+                  <tr>
+                    <td colSpan={2} className="px-4 py-3 text-slate-500 text-center">No valid rows with this mapping.</td>
+                  </tr>
+                ) : preview.map((row, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 text-white">{row.fullName}</td>
+                    <td className="px-4 py-2 font-mono">{row.phoneNumber}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-400">{totalRows} of {sheet.rows.length} rows will be imported.</p>
+        </div>
+
+        <div className="p-4 bg-navy-900 border-t border-white/10 flex justify-between gap-3">
+          <button
+            onClick={onUseAi}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Sparkles className="w-4 h-4" />
+            Let AI Read It Instead
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onSkip}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Skip File
+            </button>
+            <button
+              onClick={() => onConfirm(mapping)}
+              disabled={totalRows === 0}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Import {totalRows} Rows
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Lead } from '../types';
+import { LEAD_STATUS_LABELS, getLeadStatus } from '../services/leadFilters';
+import { Users, X, Check, GitMerge } from 'lucide-react';
+
+export interface DuplicatePair {
+  lead: Lead;
+  original: Lead;
+}
+
+interface DuplicateReviewModalProps {
+  pairs: DuplicatePair[];
+  onResolve: (id: string, isDuplicate: boolean) => void;
+  onMerge: (keepId: string, dropId: string) => void;
+  onClose: () => void;
+}
+
+const buttonClass = "flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors";
+
+const LeadSummary: React.FC<{ lead: Lead; label: string }> = ({ lead, label }) => (
+  <div className="flex-1 min-w-0 bg-navy-900/50 border border-white/5 rounded-lg p-3 space-y-1">
+    <span className="block text-[10px] text-slate-500 uppercase tracking-wide">{label}</span>
+    <p className="text-white font-medium truncate" title={lead.fullName}>{lead.fullName}</p>
+    <p className="font-mono text-sm text-slate-300">{lead.phoneNumber}</p>
+    <p className="text-xs text-slate-400 truncate" title={lead.sourceFile}>
+      {lead.sourceFile}{lead.sourcePage ? ` (p. ${lead.sourcePage})` : ""} · {new Date(lead.extractedAt).toLocaleDateString()}
+    </p>
+    <p className="text-xs text-slate-400">{LEAD_STATUS_LABELS[getLeadStatus(lead)]}</p>
+  </div>
+);
+
+const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ pairs, onResolve, onMerge, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-navy-800 border border-white/10 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-navy-900">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <Users className="w-4 h-4 text-accent-orange" />
+            Review Possible Duplicates
+            <span className="text-xs text-slate-400 font-normal">({pairs.length} left)</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-400">
+            These leads look like someone already in the list, but not closely enough to be sure.
+            Merging keeps one record and takes over the other's replies and send history.
+          </p>
+
+          {pairs.map(({ lead, original }) => (
+            <div key={lead.id} className="rounded-xl border border-white/5 p-4 space-y-3">
+              <div className="flex flex-col md:flex-row gap-3">
+                <LeadSummary lead={original} label="Earlier lead" />
+                <LeadSummary lead={lead} label="Newer lead" />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-accent-orange font-semibold">{Math.round(lead.possibleDuplicate!.score * 100)}% match</span>
+                {lead.possibleDuplicate!.reasons.map(reason => (
+                  <span key={reason} className="px-2 py-0.5 rounded-full bg-white/5 text-slate-300 border border-white/10">{reason}</span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 justify-end">
+                <button onClick={() => onResolve(lead.id, false)} className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}>
+                  <X className="w-3 h-3" />
+                  Different People
+                </button>
+                <button onClick={() => onResolve(lead.id, true)} className={`${buttonClass} bg-accent-orange/20 hover:bg-accent-orange/30 text-accent-orange`}>
+                  <Check className="w-3 h-3" />
+                  Mark Newer as Duplicate
+                </button>
+                <button onClick={() => onMerge(original.id, lead.id)} className={`${buttonClass} bg-emerald-600 hover:bg-emerald-500 text-white`}>
+                  <GitMerge className="w-3 h-3" />
+                  Merge, Keep Earlier
+                </button>
+                <button onClick={() => onMerge(lead.id, original.id)} className={`${buttonClass} bg-emerald-600 hover:bg-emerald-500 text-white`}>
+                  <GitMerge className="w-3 h-3" />
+                  Merge, Keep Newer
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReviewModal;
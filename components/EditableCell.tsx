@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Pencil } from 'lucide-react';
+
+interface EditableCellProps {
+  value: string;
+  // Returns an error message to keep the editor open, or null when saved
+  onSave: (value: string) => string | null;
+  className?: string;
+  inputClassName?: string;
+  children?: React.ReactNode;
+}
+
+const EditableCell: React.FC<EditableCellProps> = ({ value, onSave, className = '', inputClassName = '', children }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(value);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const commit = () => {
+    if (draft === value) {
+      setIsEditing(false);
+      return;
+    }
+    const result = onSave(draft);
+    if (result) {
+      setError(result);
+      return;
+    }
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+    if (e.key === 'Escape') setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex flex-col">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          className={`bg-navy-900 border rounded px-2 py-1 text-sm text-white focus:outline-none ${
+            error ? 'border-red-500/60' : 'border-accent-cyan/50'
+          } ${inputClassName}`}
+        />
+        {error && <span className="text-[10px] text-red-400 mt-1">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onClick={startEditing}
+      className={`group/edit flex items-center gap-2 cursor-text ${className}`}
+      title="Click to edit"
+    >
+      {children ?? value}
+      <Pencil className="w-3 h-3 text-slate-600 opacity-0 group-hover/edit:opacity-100 transition-opacity" />
+    </div>
+  );
+};
+
+export default EditableCell;
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { ExportColumn, ExportField, ExportFormat, ExportOptions, ExportPreset, ExtraFieldDefinition, Lead, StandardExportField } from '../types';
+import {
+  BUILT_IN_PRESETS, EXPORT_FIELD_LABELS, EXPORT_FORMAT_LABELS, getExportFieldLabel, getPresetColumns, toExtraExportField,
+  loadExportOptions, loadExportPresets, saveExportPresets, selectExportLeads,
+} from '../services/leadExport';
+import { Download, X, ArrowUp, ArrowDown, Plus, Trash2, Save } from 'lucide-react';
+
+interface ExportDialogProps {
+  allLeads: Lead[];
+  filteredLeads: Lead[];
+  selectedLeads: Lead[];
+  // Leads with a text due today; the message is the one due
+  dueLeads: Lead[];
+  extraFields: ExtraFieldDefinition[];
+  onExport: (options: ExportOptions, columns: ExportColumn[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-navy-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors";
+const labelClass = "block text-xs text-slate-400 uppercase tracking-wide mb-2";
+const iconButtonClass = "p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:pointer-events-none transition-colors";
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ allLeads, filteredLeads, selectedLeads, dueLeads, extraFields, onExport, onClose }) => {
+  const [savedPresets, setSavedPresets] = useState<ExportPreset[]>(loadExportPresets);
+  const presets = [...BUILT_IN_PRESETS, ...savedPresets];
+
+  const [options, setOptions] = useState<ExportOptions>(() => {
+    const saved = loadExportOptions();
+    const scope = selectedLeads.length > 0 ? 'selected' : saved.scope === 'selected' ? 'filtered' : saved.scope;
+    const presetId = presets.some(p => p.id === saved.presetId) ? saved.presetId : BUILT_IN_PRESETS[0].id;
+    return { ...saved, scope, presetId };
+  });
+  const [columns, setColumns] = useState<ExportColumn[]>(
+    () => getPresetColumns(presets.find(p => p.id === options.presetId) || BUILT_IN_PRESETS[0], extraFields)
+  );
+  const [presetName, setPresetName] = useState("");
+
+  const activePreset = presets.find(p => p.id === options.presetId);
+  const fieldOptions: ExportField[] = [
+    ...(Object.keys(EXPORT_FIELD_LABELS) as StandardExportField[]),
+    ...extraFields.map(f => toExtraExportField(f.key)),
+  ];
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const choosePreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    update({ presetId: id });
+    setColumns(getPresetColumns(preset, extraFields));
+  };
+
+  const updateColumn = (index: number, patch: Partial<ExportColumn>) => {
+    setColumns(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = savedPresets.find(p => p.name === name);
+    const preset: ExportPreset = { id: existing?.id || crypto.randomUUID(), name, columns };
+    const next = [...savedPresets.filter(p => p.id !== preset.id), preset];
+    setSavedPresets(next);
+    saveExportPresets(next);
+    update({ presetId: preset.id });
+    setPresetName("");
+  };
+
+  const deletePreset = () => {
+    if (!activePreset || activePreset.builtIn) return;
+    const next = savedPresets.filter(p => p.id !== activePreset.id);
+    setSavedPresets(next);
+    saveExportPresets(next);
+    choosePreset(BUILT_IN_PRESETS[0].id);
+  };
+
+  const scopeLeads =
+    options.scope === 'selected' ? selectedLeads
+    : options.scope === 'filtered' ? filteredLeads
+    : options.scope === 'due' ? dueLeads
+    : allLeads;
+  const { main, duplicates, unreviewed } = selectExportLeads(scopeLeads, options);
+  const usesColumns = options.format !== 'vcard';
+  const canExport = main.length + duplicates.length > 0 && (!usesColumns || columns.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-navy-800 border border-white/10 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-navy-900">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <Download className="w-4 h-4 text-emerald-400" />
+            Export Leads
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Format</label>
+              <select
+                value={options.format}
+                onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                className={inputClass}
+              >
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                  <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Column Preset</label>
+              <div className="flex gap-2">
+                <select
+                  value={options.presetId}
+                  onChange={(e) => choosePreset(e.target.value)}
+                  disabled={!usesColumns}
+                  className={`${inputClass} disabled:opacity-40`}
+                >
+                  {presets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                {activePreset && !activePreset.builtIn && usesColumns && (
+                  <button onClick={deletePreset} title="Delete preset" className={iconButtonClass}>
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {usesColumns ? (
+            <div>
+              <label className={labelClass}>Columns</label>
+              <div className="space-y-2">
+                {columns.map((column, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={column.header}
+                      onChange={(e) => updateColumn(index, { header: e.target.value })}
+                      placeholder="Header"
+                      className={inputClass}
+                    />
+                    <select
+                      value={column.field}
+                      onChange={(e) => updateColumn(index, { field: e.target.value as ExportField })}
+                      className={inputClass}
+                    >
+                      {fieldOptions.map(field => (
+                        <option key={field} value={field}>{getExportFieldLabel(field, extraFields)}</option>
+                      ))}
+                      {!fieldOptions.includes(column.field) && (
+                        <option value={column.field}>{getExportFieldLabel(column.field, extraFields)}</option>
+                      )}
+                    </select>
+                    <button onClick={() => moveColumn(index, -1)} disabled={index === 0} title="Move up" className={iconButtonClass}>
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1} title="Move down" className={iconButtonClass}>
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))} title="Remove column" className={iconButtonClass}>
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <button
+                  onClick={() => setColumns(prev => [...prev, { field: 'fullName', header: "" }])}
+                  className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add column
+                </button>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Preset name"
+                    className={`${inputClass} md:w-48`}
+                  />
+                  <button
+                    onClick={savePreset}
+                    disabled={!presetName.trim() || columns.length === 0}
+                    className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save Preset
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400">vCards hold the name, mobile number and SMS message (as the note) for each lead.</p>
+          )}
+
+          <div>
+            <label className={labelClass}>Leads</label>
+            <div className="flex flex-col md:flex-row gap-2 md:gap-6 text-sm text-slate-300">
+              {([
+                ['filtered', `Current view (${filteredLeads.length})`],
+                ['selected', `Selected (${selectedLeads.length})`],
+                ['due', `Texts due today (${dueLeads.length})`],
+                ['all', `All leads (${allLeads.length})`],
+              ] as const).map(([scope, label]) => (
+                <label key={scope} className={`flex items-center gap-2 ${scope === 'selected' && selectedLeads.length === 0 ? 'opacity-40' : 'cursor-pointer'}`}>
+                  <input
+                    type="radio"
+                    checked={options.scope === scope}
+                    onChange={() => update({ scope })}
+                    disabled={scope === 'selected' && selectedLeads.length === 0}
+                    className="accent-emerald-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 text-sm text-slate-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.excludeDuplicates}
+                onChange={(e) => update({ excludeDuplicates: e.target.checked })}
+                className="accent-emerald-500"
+              />
+              Leave out duplicates
+            </label>
+            <label className={`flex items-center gap-2 ${options.excludeDuplicates ? 'opacity-40' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={options.duplicatesSeparately && !options.excludeDuplicates}
+                onChange={(e) => update({ duplicatesSeparately: e.target.checked })}
+                disabled={options.excludeDuplicates}
+                className="accent-emerald-500"
+              />
+              Put duplicates on a separate {options.format === 'xlsx' ? "sheet" : options.format === 'json' ? "list" : "file"}
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeOptedOut}
+                onChange={(e) => update({ includeOptedOut: e.target.checked })}
+                className="accent-red-500"
+              />
+              Include opted-out numbers
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 bg-navy-900 border-t border-white/10 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <span className="text-xs text-slate-400">
+            {main.length} lead{main.length === 1 ? "" : "s"}
+            {duplicates.length > 0 && ` + ${duplicates.length} duplicate${duplicates.length === 1 ? "" : "s"} separately`}
+            {unreviewed.length > 0 && (
+              <span className="block text-accent-orange">
+                {unreviewed.length} low-confidence lead{unreviewed.length === 1 ? "" : "s"} held back until reviewed
+              </span>
+            )}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onExport(options, columns)}
+              disabled={!canExport}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ExtraFieldDefinition, ExtraFieldType } from '../types';
+import { DEFAULT_EXTRA_FIELDS, EXTRA_FIELD_TYPE_LABELS, MAX_EXTRA_FIELDS, toFieldKey } from '../services/extraFields';
+import { ListPlus, ChevronDown, ChevronUp, Plus, X, RotateCcw } from 'lucide-react';
+
+interface ExtraFieldsPanelProps {
+  fields: ExtraFieldDefinition[];
+  onChange: (fields: ExtraFieldDefinition[]) => void;
+}
+
+const inputClass = "w-full bg-navy-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors";
+const labelClass = "block text-xs text-slate-400 uppercase tracking-wide mb-2";
+
+const ExtraFieldsPanel: React.FC<ExtraFieldsPanelProps> = ({ fields, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+  const [newType, setNewType] = useState<ExtraFieldType>('text');
+
+  const updateField = (key: string, patch: Partial<ExtraFieldDefinition>) => {
+    onChange(fields.map(f => (f.key === key ? { ...f, ...patch } : f)));
+  };
+
+  // The key is fixed when the field is added, so renaming the label keeps
+  // the values already stored on leads
+  const addField = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    const base = toFieldKey(label);
+    let key = base;
+    for (let i = 2; fields.some(f => f.key === key); i++) key = `${base}${i}`;
+    onChange([...fields, { key, label, type: newType, description: "" }]);
+    setNewLabel("");
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-white font-medium"
+      >
+        <div className="flex items-center gap-2">
+          <ListPlus className="w-4 h-4 text-accent-cyan" />
+          <h2>Extra Fields</h2>
+          <span className="text-xs text-slate-400 font-normal">
+            ({fields.length > 0 ? fields.map(f => f.label).join(", ") : "name and number only"})
+          </span>
+        </div>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-slate-400">
+            Details the AI pulls from each upload besides name and number. They show as table and export columns,
+            and messages use them (e.g. Hazmat loads are only pitched to drivers with a Hazmat endorsement).
+            Spreadsheet columns with the same name are read directly.
+          </p>
+
+          {fields.length > 0 && (
+            <div className="space-y-2">
+              <div className="hidden md:grid grid-cols-[1fr_8rem_2fr_2rem] gap-2">
+                <span className={labelClass}>Label</span>
+                <span className={labelClass}>Type</span>
+                <span className={labelClass}>What to look for</span>
+              </div>
+              {fields.map(field => (
+                <div key={field.key} className="grid grid-cols-1 md:grid-cols-[1fr_8rem_2fr_2rem] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={field.label}
+                    onChange={(e) => updateField(field.key, { label: e.target.value })}
+                    className={inputClass}
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(field.key, { type: e.target.value as ExtraFieldType })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(EXTRA_FIELD_TYPE_LABELS) as ExtraFieldType[]).map(type => (
+                      <option key={type} value={type}>{EXTRA_FIELD_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={field.description}
+                    onChange={(e) => updateField(field.key, { description: e.target.value })}
+                    placeholder="Hint for the AI, e.g. A, B or C"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => onChange(fields.filter(f => f.key !== field.key))}
+                    title="Remove field"
+                    className="p-1.5 rounded-md text-slate-400 hover:text-red-400 hover:bg-white/5 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addField()}
+              placeholder="New field, e.g. Preferred Lanes"
+              className={inputClass}
+            />
+            <select
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as ExtraFieldType)}
+              className={`${inputClass} md:w-40`}
+            >
+              {(Object.keys(EXTRA_FIELD_TYPE_LABELS) as ExtraFieldType[]).map(type => (
+                <option key={type} value={type}>{EXTRA_FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <button
+              onClick={addField}
+              disabled={!newLabel.trim() || fields.length >= MAX_EXTRA_FIELDS}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg text-sm font-medium whitespace-nowrap transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Field
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_EXTRA_FIELDS)}
+              title="Reset to the driver fields"
+              className="flex items-center justify-center gap-2 px-4 py-2 text-slate-400 hover:text-white rounded-lg text-sm whitespace-nowrap transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExtraFieldsPanel;
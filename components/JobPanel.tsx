@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { FileJob, FileJobState } from '../types';
+import { REDACTION_LABELS } from '../services/piiRedaction';
+import { Layers, Clock, Loader2, CheckCircle2, XCircle, RotateCcw, AlertTriangle, EyeOff } from 'lucide-react';
+
+interface JobPanelProps {
+  jobs: FileJob[];
+  // Retries are only offered once the current run has finished
+  canRetry: boolean;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+}
+
+const STATE_LABELS: Record<FileJobState, string> = {
+  queued: "Queued",
+  reading: "Reading file",
+  extracting: "Extracting leads",
+  writing: "Writing messages",
+  done: "Done",
+  failed: "Failed",
+};
+
+const isActive = (job: FileJob) => job.state !== 'done' && job.state !== 'failed';
+
+const StateIcon: React.FC<{ state: FileJobState }> = ({ state }) => {
+  if (state === 'queued') return <Clock className="w-4 h-4 text-slate-500 shrink-0" />;
+  if (state === 'done') return <CheckCircle2 className="w-4 h-4 text-green-400 shrink-0" />;
+  if (state === 'failed') return <XCircle className="w-4 h-4 text-red-400 shrink-0" />;
+  return <Loader2 className="w-4 h-4 text-accent-cyan animate-spin shrink-0" />;
+};
+
+const describeJob = (job: FileJob): string => {
+  if (job.state === 'failed') return job.error || "Unknown error";
+  if (job.state === 'done') {
+    if (job.leadCount === 0 && job.skippedCount === 0) return "No leads found";
+    const skipped = job.skippedCount > 0 ? ` (${job.skippedCount} skipped for invalid numbers)` : "";
+    return `${job.leadCount} lead${job.leadCount === 1 ? "" : "s"}${skipped}`;
+  }
+  return job.detail ? `${STATE_LABELS[job.state]} · ${job.detail}` : STATE_LABELS[job.state];
+};
+
+const JobPanel: React.FC<JobPanelProps> = ({ jobs, canRetry, onRetry, onRetryFailed, onClear }) => {
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => !isActive(job)).length;
+  const failed = jobs.filter(job => job.state === 'failed').length;
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <Layers className="w-4 h-4 text-accent-cyan" />
+          <h2>Files</h2>
+          <span className="text-xs text-slate-400 font-normal">({finished} of {jobs.length} finished)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {failed > 0 && (
+            <button
+              onClick={onRetryFailed}
+              disabled={!canRetry}
+              className="flex items-center gap-1 text-xs text-slate-300 bg-navy-700 hover:bg-navy-600 disabled:opacity-40 disabled:pointer-events-none border border-white/10 px-3 py-1.5 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Retry Failed ({failed})
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={finished === 0}
+            className="text-xs text-slate-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none px-2 py-1.5 transition-colors"
+          >
+            Clear Finished
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-white/5 rounded-lg border border-white/5">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <StateIcon state={job.state} />
+            <div className="flex-1 min-w-0">
+              <div className="text-slate-200 truncate" title={job.file.name}>{job.file.name}</div>
+              <div className={`text-xs truncate ${job.state === 'failed' ? 'text-red-400' : 'text-slate-500'}`}>
+                {describeJob(job)}
+              </div>
+              {job.warning && (
+                <div className="flex items-center gap-1 text-xs text-accent-orange truncate" title={job.warning}>
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {job.warning}
+                </div>
+              )}
+              {job.redactions && job.redactions.length > 0 && (
+                <button
+                  onClick={() => setPreviewId(previewId === job.id ? null : job.id)}
+                  className="flex items-center gap-1 text-xs text-accent-cyan hover:text-white transition-colors"
+                >
+                  <EyeOff className="w-3 h-3 shrink-0" />
+                  {job.redactions.length} personal detail{job.redactions.length === 1 ? "" : "s"} masked before sending
+                </button>
+              )}
+              {previewId === job.id && job.redactions && (
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {job.redactions.map((r, i) => (
+                    <li key={i} className="flex gap-2 text-slate-400">
+                      <span className="w-14 shrink-0 text-slate-600">Line {r.line}</span>
+                      <span className="w-40 shrink-0">{REDACTION_LABELS[r.kind]}</span>
+                      <span className="font-mono text-slate-300 line-through truncate" title={r.value}>{r.value}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {job.state === 'failed' && (
+              <button
+                onClick={() => onRetry(job.id)}
+                disabled={!canRetry}
+                className="flex items-center gap-1 text-xs text-accent-cyan hover:text-white disabled:opacity-40 disabled:pointer-events-none transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { LeadFilter, LeadStatus } from '../types';
+import { EMPTY_FILTER, LEAD_STATUS_LABELS, isFilterActive } from '../services/leadFilters';
+import { Search, X } from 'lucide-react';
+
+interface LeadFilterBarProps {
+  filter: LeadFilter;
+  sourceFiles: string[];
+  onChange: (filter: LeadFilter) => void;
+}
+
+const selectClass = "bg-navy-900/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-accent-cyan/50 transition-colors";
+
+const LeadFilterBar: React.FC<LeadFilterBarProps> = ({ filter, sourceFiles, onChange }) => {
+  return (
+    <div className="flex flex-col md:flex-row gap-3">
+      <div className="relative flex-1">
+        <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          placeholder="Search name, phone or message"
+          className="w-full bg-navy-900/50 border border-white/10 rounded-lg pl-9 pr-4 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors"
+        />
+      </div>
+      <select
+        value={filter.status}
+        onChange={(e) => onChange({ ...filter, status: e.target.value as LeadFilter['status'] })}
+        className={selectClass}
+      >
+        <option value="all">All statuses</option>
+        {(Object.keys(LEAD_STATUS_LABELS) as LeadStatus[]).map(status => (
+          <option key={status} value={status}>{LEAD_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+      <select
+        value={filter.sourceFile}
+        onChange={(e) => onChange({ ...filter, sourceFile: e.target.value })}
+        className={`${selectClass} max-w-[220px]`}
+      >
+        <option value="all">All source files</option>
+        {sourceFiles.map(file => (
+          <option key={file} value={file}>{file}</option>
+        ))}
+      </select>
+      {isFilterActive(filter) && (
+        <button
+          onClick={() => onChange(EMPTY_FILTER)}
+          className="flex items-center gap-1 px-3 py-2 text-sm text-slate-400 hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LeadFilterBar;
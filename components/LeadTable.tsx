@@ -1,13 +1,183 @@
 import React, { useState } from 'react';
-import { Lead } from '../types';
-import { MessageSquare, AlertTriangle, User, Phone, FileText, X } from 'lucide-react';
+import { ExtraFieldDefinition, Lead, LeadEdit, LeadSort, LeadSortKey, LeadStatus, MessageLanguage, SmsSendStatus } from '../types';
+import { getSmsEncodingInfo, isCompliant } from '../services/complianceRules';
+import { LEAD_STATUS_LABELS, getLeadStatus } from '../services/leadFilters';
+import { REPLY_CATEGORY_LABELS } from '../services/replies';
+import { getLowConfidenceFields } from '../services/sourceReview';
+import { formatExtraFieldValue } from '../services/extraFields';
+import { LANGUAGE_LABELS } from '../services/messageLanguage';
+import { daysUntil } from '../services/followUps';
+import EditableCell from './EditableCell';
+import {
+  MessageSquare, AlertTriangle, User, Phone, FileText, X, ShieldOff, ShieldCheck, ShieldAlert, RefreshCw,
+  Copy, Check, Trash2, CopyX, CopyCheck, Pencil, FileSpreadsheet,
+  ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, Clock, Send, CheckCheck, XCircle,
+  MessageCircle, ThumbsUp, PhoneOff, ScanSearch,
+} from 'lucide-react';
+
+// Where a contacted lead is in its campaign's follow-up sequence
+export interface NextFollowUp {
+  step: number;
+  dueDate: Date;
+  written: boolean;
+}
 
 interface LeadTableProps {
   leads: Lead[];
+  similarIds?: string[]; // Leads whose message is too close to another in the same batch
+  regeneratingIds?: string[];
+  onRegenerateMessage?: (id: string) => void;
+  // Switches the message language and rewrites the message
+  onChangeLanguage?: (id: string, language: MessageLanguage) => void;
+  onUpdateLead?: (id: string, edit: LeadEdit) => string | null;
+  onDeleteLeads?: (ids: string[]) => void;
+  onToggleDuplicate?: (id: string) => void;
+  onExportLeads?: (ids: string[]) => void;
+  onReviewSource?: (id: string) => void;
+  // Every lead, to name the original a duplicate points to
+  leadsById?: Map<string, Lead>;
+  // User-defined details, shown as columns after the phone number
+  extraFields?: ExtraFieldDefinition[];
+  // Next follow-up of each lead still in a sequence, by lead id
+  nextFollowUps?: Map<string, NextFollowUp>;
+  sort?: LeadSort | null;
+  onSortChange?: (sort: LeadSort | null) => void;
+  isFiltered?: boolean;
 }
 
-const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
-  const [selectedMessage, setSelectedMessage] = useState<{ name: string; msg: string } | null>(null);
+// Rows rendered per page; keeps large histories responsive
+const PAGE_SIZE = 50;
+
+const STATUS_BADGES: Record<LeadStatus, { icon: React.ElementType | null; className: string }> = {
+  'new': { icon: null, className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  'duplicate': { icon: AlertTriangle, className: "bg-accent-orange/20 text-accent-orange border-accent-orange/30" },
+  'contacted': { icon: Send, className: "bg-accent-cyan/20 text-accent-cyan border-accent-cyan/30" },
+  'replied': { icon: MessageCircle, className: "bg-slate-500/20 text-slate-200 border-slate-500/30" },
+  'interested': { icon: ThumbsUp, className: "bg-emerald-500/20 text-emerald-300 border-emerald-400/40" },
+  'wrong-number': { icon: PhoneOff, className: "bg-accent-orange/20 text-accent-orange border-accent-orange/30" },
+  'opted-out': { icon: ShieldOff, className: "bg-red-500/20 text-red-400 border-red-500/30" },
+};
+
+const SEND_STATUS_BADGES: Record<SmsSendStatus, { label: string; icon: React.ElementType; className: string }> = {
+  queued: { label: "Queued", icon: Clock, className: "bg-slate-500/20 text-slate-300 border-slate-500/30" },
+  sent: { label: "Sent", icon: Send, className: "bg-accent-cyan/20 text-accent-cyan border-accent-cyan/30" },
+  delivered: { label: "Delivered", icon: CheckCheck, className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  failed: { label: "Failed", icon: XCircle, className: "bg-red-500/20 text-red-400 border-red-500/30" },
+};
+
+// Marks a value the extraction wasn't sure about until someone reviews it
+const LowConfidenceMark: React.FC<{ lead: Lead; field: 'fullName' | 'phoneNumber' }> = ({ lead, field }) =>
+  !lead.reviewedAt && getLowConfidenceFields(lead).includes(field) ? (
+    <span title={`Read with ${Math.round((lead.confidence?.[field] ?? 0) * 100)}% confidence. Check it against the source.`}>
+      <ScanSearch className="w-3 h-3 text-accent-orange" />
+    </span>
+  ) : null;
+
+const rowActionClass = "inline-flex items-center justify-center p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 transition-all active:scale-95";
+
+const LeadTable: React.FC<LeadTableProps> = ({
+  leads,
+  similarIds = [],
+  regeneratingIds = [],
+  onRegenerateMessage,
+  onChangeLanguage,
+  onUpdateLead,
+  onDeleteLeads,
+  onToggleDuplicate,
+  onExportLeads,
+  onReviewSource,
+  leadsById,
+  extraFields = [],
+  nextFollowUps,
+  sort = null,
+  onSortChange,
+  isFiltered = false,
+}) => {
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+  const [messageDraft, setMessageDraft] = useState<string | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const similarSet = new Set(similarIds);
+  const regeneratingSet = new Set(regeneratingIds);
+  // Looked up on every render so the modal reflects regenerated messages
+  const selectedLead = leads.find(l => l.id === selectedLeadId) || null;
+
+  const pageCount = Math.max(1, Math.ceil(leads.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageLeads = leads.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // Drop selections for leads that no longer exist (or are filtered out)
+  const visibleCheckedIds = leads.filter(l => checkedIds.has(l.id)).map(l => l.id);
+  const allChecked = pageLeads.length > 0 && pageLeads.every(l => checkedIds.has(l.id));
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Selects or clears the rows on the current page
+  const toggleAll = () => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      pageLeads.forEach(l => (allChecked ? next.delete(l.id) : next.add(l.id)));
+      return next;
+    });
+  };
+
+  // Cycles ascending → descending → original order
+  const toggleSort = (key: LeadSortKey) => {
+    if (!onSortChange) return;
+    if (!sort || sort.key !== key) onSortChange({ key, direction: 'asc' });
+    else if (sort.direction === 'asc') onSortChange({ key, direction: 'desc' });
+    else onSortChange(null);
+  };
+
+  const renderSortHeader = (key: LeadSortKey, label: string) => {
+    if (!onSortChange) return <th className="px-6 py-4">{label}</th>;
+    const Icon = sort?.key === key ? (sort.direction === 'asc' ? ArrowUp : ArrowDown) : ArrowUpDown;
+    return (
+      <th className="px-6 py-4">
+        <button onClick={() => toggleSort(key)} className="flex items-center gap-1 uppercase tracking-wider hover:text-accent-cyan transition-colors">
+          {label}
+          <Icon className={`w-3 h-3 ${sort?.key === key ? 'text-accent-cyan' : 'text-slate-500'}`} />
+        </button>
+      </th>
+    );
+  };
+
+  const copyMessage = async (lead: Lead) => {
+    try {
+      await navigator.clipboard.writeText(lead.outreachMessage);
+      setCopiedId(lead.id);
+      setTimeout(() => setCopiedId(current => (current === lead.id ? null : current)), 1500);
+    } catch (err) {
+      console.error("Clipboard write failed:", err);
+    }
+  };
+
+  const openMessage = (id: string) => {
+    setSelectedLeadId(id);
+    setMessageDraft(null);
+  };
+
+  const saveMessageDraft = () => {
+    if (!selectedLead || messageDraft === null || !onUpdateLead) return;
+    onUpdateLead(selectedLead.id, { outreachMessage: messageDraft });
+    setMessageDraft(null);
+  };
+
+  if (leads.length === 0 && isFiltered) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 glass-card rounded-xl text-slate-400 mt-6">
+        <p className="text-lg">No leads match the current filters.</p>
+      </div>
+    );
+  }
 
   if (leads.length === 0) {
     return (
@@ -23,56 +193,243 @@ const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
 
   return (
     <>
+      {/* Bulk Actions */}
+      {visibleCheckedIds.length > 0 && (
+        <div className="mt-6 flex items-center justify-between gap-3 glass px-4 py-3 rounded-xl">
+          <span className="text-sm text-slate-300">{visibleCheckedIds.length} selected</span>
+          <div className="flex items-center gap-2">
+            {onExportLeads && (
+              <button
+                onClick={() => onExportLeads(visibleCheckedIds)}
+                className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Export Selected
+              </button>
+            )}
+            {onDeleteLeads && (
+              <button
+                onClick={() => {
+                  onDeleteLeads(visibleCheckedIds);
+                  setCheckedIds(new Set());
+                }}
+                className="flex items-center gap-2 bg-red-600/80 hover:bg-red-500 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete Selected
+              </button>
+            )}
+            <button
+              onClick={() => setCheckedIds(new Set())}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="overflow-x-auto rounded-xl glass-card border border-white/10 shadow-2xl mt-6">
         <table className="w-full text-left text-sm text-slate-300">
           <thead className="bg-navy-800 text-slate-100 uppercase text-xs font-semibold tracking-wider">
             <tr>
+              <th className="pl-6 py-4 w-4">
+                <input type="checkbox" checked={allChecked} onChange={toggleAll} className="accent-emerald-500" />
+              </th>
               <th className="px-6 py-4">Status</th>
-              <th className="px-6 py-4">Full Name</th>
-              <th className="px-6 py-4">Phone Number</th>
-              <th className="px-6 py-4">Source File</th>
+              {renderSortHeader('fullName', 'Full Name')}
+              {renderSortHeader('phoneNumber', 'Phone Number')}
+              {extraFields.map(field => (
+                <th key={field.key} className="px-6 py-4 whitespace-nowrap" title={field.description}>{field.label}</th>
+              ))}
+              {renderSortHeader('sourceFile', 'Source File')}
+              {renderSortHeader('extractedAt', 'Extracted')}
+              <th className="px-6 py-4">Compliance</th>
+              <th className="px-6 py-4">Send Status</th>
               <th className="px-6 py-4 text-center">SMS Action</th>
+              <th className="px-6 py-4 text-center">Row Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-white/5">
-            {leads.map((lead) => (
+            {pageLeads.map((lead) => (
               <tr 
                 key={lead.id} 
                 className={`transition-colors duration-200 hover:bg-white/5 ${
-                    lead.isDuplicate ? 'bg-orange-900/10' : ''
-                }`}
+                    lead.isSuppressed ? 'bg-red-900/10' : lead.status === 'duplicate' ? 'bg-orange-900/10' : ''
+                } ${checkedIds.has(lead.id) ? 'bg-white/5' : ''}`}
               >
+                <td className="pl-6 py-4">
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.has(lead.id)}
+                    onChange={() => toggleChecked(lead.id)}
+                    className="accent-emerald-500"
+                  />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  {lead.isDuplicate ? (
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-accent-orange/20 text-accent-orange border border-accent-orange/30">
-                      <AlertTriangle className="w-3 h-3 mr-1" />
-                      Duplicate
-                    </span>
-                  ) : (
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-500/20 text-emerald-400 border border-emerald-500/30">
-                      New Lead
-                    </span>
+                  {(() => {
+                    const status = getLeadStatus(lead);
+                    const { icon: Icon, className } = STATUS_BADGES[status];
+                    const original = lead.duplicateOf ? leadsById?.get(lead.duplicateOf) : undefined;
+                    return (
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${className}`}
+                        title={status === 'duplicate' && original ? `Duplicate of ${original.fullName}, ${original.phoneNumber} (${original.sourceFile})` : undefined}
+                      >
+                        {Icon && <Icon className="w-3 h-3 mr-1" />}
+                        {LEAD_STATUS_LABELS[status]}
+                      </span>
+                    );
+                  })()}
+                  {lead.possibleDuplicate && getLeadStatus(lead) === 'new' && (
+                    <p className="mt-1 text-[10px] text-accent-orange" title={lead.possibleDuplicate.reasons.join(", ")}>
+                      Possible duplicate ({Math.round(lead.possibleDuplicate.score * 100)}%)
+                    </p>
+                  )}
+                  {lead.lastReply && (
+                    <p
+                      className="mt-1 max-w-[160px] truncate text-xs text-slate-400 italic"
+                      title={`${REPLY_CATEGORY_LABELS[lead.lastReply.category]} reply, ${new Date(lead.lastReply.receivedAt).toLocaleString()}: ${lead.lastReply.body}`}
+                    >
+                      “{lead.lastReply.body}”
+                    </p>
                   )}
                 </td>
-                <td className="px-6 py-4 font-medium text-white flex items-center gap-2">
-                    <User className="w-4 h-4 text-slate-500" />
-                    {lead.fullName}
+                <td className="px-6 py-4 font-medium text-white">
+                  {onUpdateLead ? (
+                    <EditableCell value={lead.fullName} onSave={(fullName) => onUpdateLead(lead.id, { fullName })}>
+                      <User className="w-4 h-4 text-slate-500" />
+                      {lead.fullName}
+                      <LowConfidenceMark lead={lead} field="fullName" />
+                    </EditableCell>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <User className="w-4 h-4 text-slate-500" />
+                      {lead.fullName}
+                      <LowConfidenceMark lead={lead} field="fullName" />
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 font-mono text-slate-300">
-                   <div className="flex items-center gap-2">
-                    <Phone className="w-3 h-3 text-slate-500" />
-                    {lead.phoneNumber}
-                   </div>
+                  {(() => {
+                    const content = (
+                      <>
+                        <Phone className="w-3 h-3 text-slate-500" />
+                        {lead.phoneNumber}
+                        <LowConfidenceMark lead={lead} field="phoneNumber" />
+                        {lead.phoneWarning && (
+                          <span title={lead.phoneWarning}>
+                            <AlertTriangle className="w-3 h-3 text-accent-orange" />
+                          </span>
+                        )}
+                      </>
+                    );
+                    return onUpdateLead ? (
+                      <EditableCell
+                        value={lead.phoneNumber}
+                        onSave={(phoneNumber) => onUpdateLead(lead.id, { phoneNumber })}
+                        inputClassName="font-mono w-36"
+                      >
+                        {content}
+                      </EditableCell>
+                    ) : (
+                      <div className="flex items-center gap-2">{content}</div>
+                    );
+                  })()}
                 </td>
+                {extraFields.map(field => {
+                  const value = lead.extraFields?.[field.key];
+                  return (
+                    <td key={field.key} className="px-6 py-4 text-slate-300">
+                      {Array.isArray(value) ? (
+                        <div className="flex flex-wrap gap-1">
+                          {value.map(item => (
+                            <span key={item} className="px-2 py-0.5 rounded-full text-xs bg-white/5 border border-white/10 whitespace-nowrap">{item}</span>
+                          ))}
+                        </div>
+                      ) : value !== undefined ? (
+                        <span className="whitespace-nowrap">{formatExtraFieldValue(value)}</span>
+                      ) : (
+                        <span className="text-slate-600">—</span>
+                      )}
+                    </td>
+                  );
+                })}
                 <td className="px-6 py-4 text-slate-400">
                     <div className="flex items-center gap-2 max-w-[150px] truncate" title={lead.sourceFile}>
                         <FileText className="w-3 h-3" />
                         <span className="truncate">{lead.sourceFile}</span>
+                        {lead.sourcePage && <span className="text-xs text-slate-500 shrink-0">p. {lead.sourcePage}</span>}
                     </div>
                 </td>
-                <td className="px-6 py-4 text-center">
+                <td className="px-6 py-4 text-slate-400 whitespace-nowrap">
+                    {new Date(lead.extractedAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {!isCompliant(lead.complianceIssues) ? (
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-500/20 text-red-400 border border-red-500/30"
+                      title={lead.complianceIssues.map(v => v.message).join('\n')}
+                    >
+                      <ShieldAlert className="w-3 h-3 mr-1" />
+                      {lead.complianceIssues.filter(v => v.severity === 'error').length} Issue(s)
+                    </span>
+                  ) : lead.complianceIssues.length > 0 ? (
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-accent-orange/20 text-accent-orange border border-accent-orange/30"
+                      title={lead.complianceIssues.map(v => v.message).join('\n')}
+                    >
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Warning
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-500/20 text-emerald-400 border border-emerald-500/30">
+                      <ShieldCheck className="w-3 h-3 mr-1" />
+                      Passed
+                    </span>
+                  )}
+                  {similarSet.has(lead.id) && (
+                    <span
+                      className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-accent-orange/20 text-accent-orange border border-accent-orange/30"
+                      title="This message is very similar to another one in the same upload"
+                    >
+                      Too Similar
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {lead.sendStatus ? (() => {
+                    const badge = SEND_STATUS_BADGES[lead.sendStatus];
+                    const Icon = badge.icon;
+                    return (
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${badge.className}`}
+                        title={lead.sendError || (lead.sentAt ? `Sent ${new Date(lead.sentAt).toLocaleString()}` : undefined)}
+                      >
+                        <Icon className="w-3 h-3 mr-1" />
+                        {badge.label}
+                      </span>
+                    );
+                  })() : (
+                    <span className="text-slate-600">—</span>
+                  )}
+                  {(() => {
+                    const next = nextFollowUps?.get(lead.id);
+                    if (!next) return null;
+                    const days = daysUntil(next.dueDate);
+                    return (
+                      <div
+                        className={`mt-1 text-[10px] ${days <= 0 ? 'text-accent-cyan' : 'text-slate-500'}`}
+                        title={next.written ? "Follow-up message written" : "Follow-up message not written yet"}
+                      >
+                        Follow-up {next.step} · {days < 0 ? "overdue" : days === 0 ? "due today" : `due ${next.dueDate.toLocaleDateString()}`}
+                      </div>
+                    );
+                  })()}
+                </td>
+                <td className="px-6 py-4 text-center whitespace-nowrap">
                   <button
-                    onClick={() => setSelectedMessage({ name: lead.fullName, msg: lead.outreachMessage })}
+                    onClick={() => openMessage(lead.id)}
                     className="group relative inline-flex items-center justify-center p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 transition-all active:scale-95"
                   >
                     <MessageSquare className="w-4 h-4 text-accent-cyan" />
@@ -81,6 +438,59 @@ const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
                         <span className="relative inline-flex rounded-full h-2 w-2 bg-accent-cyan"></span>
                     </span>
                   </button>
+                  {onRegenerateMessage && (
+                    <button
+                      onClick={() => onRegenerateMessage(lead.id)}
+                      disabled={regeneratingSet.has(lead.id) || Boolean(lead.sentAt)}
+                      title={lead.sentAt ? "Already sent" : "Regenerate message"}
+                      className="ml-2 inline-flex items-center justify-center p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 transition-all active:scale-95 disabled:opacity-50"
+                    >
+                      <RefreshCw className={`w-4 h-4 text-slate-300 ${regeneratingSet.has(lead.id) ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
+                  {onChangeLanguage && (() => {
+                    const other: MessageLanguage = lead.language === 'es' ? 'en' : 'es';
+                    return (
+                      <button
+                        onClick={() => onChangeLanguage(lead.id, other)}
+                        disabled={regeneratingSet.has(lead.id) || Boolean(lead.sentAt)}
+                        title={lead.sentAt
+                          ? `Written in ${LANGUAGE_LABELS[lead.language]}. Already sent`
+                          : `Written in ${LANGUAGE_LABELS[lead.language]}. Rewrite in ${LANGUAGE_LABELS[other]}`}
+                        className="ml-2 inline-flex items-center justify-center w-9 h-9 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 text-xs font-semibold text-slate-300 uppercase transition-all active:scale-95 disabled:opacity-50"
+                      >
+                        {lead.language}
+                      </button>
+                    );
+                  })()}
+                </td>
+                <td className="px-6 py-4 text-center whitespace-nowrap space-x-2">
+                  <button onClick={() => copyMessage(lead)} title="Copy message" className={rowActionClass}>
+                    {copiedId === lead.id
+                      ? <Check className="w-4 h-4 text-emerald-400" />
+                      : <Copy className="w-4 h-4 text-slate-300" />}
+                  </button>
+                  {onReviewSource && (
+                    <button onClick={() => onReviewSource(lead.id)} title="Check against source" className={rowActionClass}>
+                      <ScanSearch className="w-4 h-4 text-accent-cyan" />
+                    </button>
+                  )}
+                  {onToggleDuplicate && (lead.status === 'new' || lead.status === 'duplicate') && (
+                    <button
+                      onClick={() => onToggleDuplicate(lead.id)}
+                      title={lead.status === 'duplicate' ? "Mark as not duplicate" : "Mark as duplicate"}
+                      className={rowActionClass}
+                    >
+                      {lead.status === 'duplicate'
+                        ? <CopyCheck className="w-4 h-4 text-emerald-400" />
+                        : <CopyX className="w-4 h-4 text-accent-orange" />}
+                    </button>
+                  )}
+                  {onDeleteLeads && (
+                    <button onClick={() => onDeleteLeads([lead.id])} title="Delete lead" className={rowActionClass}>
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -88,8 +498,34 @@ const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
         </table>
       </div>
 
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-3 text-sm text-slate-400">
+          <span>
+            {currentPage * PAGE_SIZE + 1}–{Math.min((currentPage + 1) * PAGE_SIZE, leads.length)} of {leads.length}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>Page {currentPage + 1} of {pageCount}</span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="p-2 rounded-lg bg-navy-700 hover:bg-navy-600 border border-white/10 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Message Modal */}
-      {selectedMessage && (
+      {selectedLead && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
           <div className="bg-navy-800 border border-white/10 rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-in fade-in zoom-in duration-200">
             <div className="p-4 border-b border-white/10 flex justify-between items-center bg-navy-900">
@@ -98,29 +534,117 @@ const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
                 Message Preview
               </h3>
               <button 
-                onClick={() => setSelectedMessage(null)}
+                onClick={() => setSelectedLeadId(null)}
                 className="text-slate-400 hover:text-white transition-colors"
               >
                 <X className="w-5 h-5" />
               </button>
             </div>
             <div className="p-6">
-                <div className="text-xs uppercase tracking-wider text-slate-500 mb-2">To: {selectedMessage.name}</div>
-                <div className="bg-slate-900/50 p-4 rounded-lg border border-white/5 text-slate-200 font-sans leading-relaxed relative">
-                    {/* Simulated text bubble tail */}
-                    <div className="absolute -left-2 top-4 w-4 h-4 bg-slate-900/50 border-l border-b border-white/5 transform rotate-45"></div>
-                    {selectedMessage.msg}
-                </div>
-                <div className="mt-4 flex items-center gap-2 text-xs text-emerald-400 bg-emerald-400/10 p-2 rounded border border-emerald-400/20">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                    <span>Compliance Check Passed: Sender ID, Opt-out included.</span>
-                </div>
+                <div className="text-xs uppercase tracking-wider text-slate-500 mb-2">To: {selectedLead.fullName}</div>
+                {messageDraft !== null ? (
+                  <textarea
+                    autoFocus
+                    value={messageDraft}
+                    onChange={(e) => setMessageDraft(e.target.value)}
+                    rows={5}
+                    className="w-full bg-slate-900/50 p-4 rounded-lg border border-accent-cyan/50 text-slate-200 font-sans leading-relaxed focus:outline-none resize-none"
+                  />
+                ) : (
+                  <div className="bg-slate-900/50 p-4 rounded-lg border border-white/5 text-slate-200 font-sans leading-relaxed relative">
+                      {/* Simulated text bubble tail */}
+                      <div className="absolute -left-2 top-4 w-4 h-4 bg-slate-900/50 border-l border-b border-white/5 transform rotate-45"></div>
+                      {selectedLead.outreachMessage}
+                  </div>
+                )}
+                {(() => {
+                  const info = getSmsEncodingInfo(messageDraft ?? selectedLead.outreachMessage);
+                  return (
+                    <div className="mt-2 text-[10px] text-slate-500 text-right">
+                      {info.encoding} · {info.length} chars · {info.segments} segment{info.segments === 1 ? '' : 's'}
+                    </div>
+                  );
+                })()}
+                {selectedLead.complianceIssues.length === 0 ? (
+                  <div className="mt-4 flex items-center gap-2 text-xs text-emerald-400 bg-emerald-400/10 p-2 rounded border border-emerald-400/20">
+                      <ShieldCheck className="w-4 h-4" />
+                      <span>Compliance Check Passed.</span>
+                  </div>
+                ) : (
+                  <ul className="mt-4 space-y-2">
+                    {selectedLead.complianceIssues.map((issue, index) => (
+                      <li
+                        key={index}
+                        className={`flex items-start gap-2 text-xs p-2 rounded border ${
+                          issue.severity === 'error'
+                            ? 'text-red-400 bg-red-400/10 border-red-400/20'
+                            : 'text-accent-orange bg-accent-orange/10 border-accent-orange/20'
+                        }`}
+                      >
+                        {issue.severity === 'error'
+                          ? <ShieldAlert className="w-4 h-4 shrink-0" />
+                          : <AlertTriangle className="w-4 h-4 shrink-0" />}
+                        <span>{issue.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {selectedLead.followUps && selectedLead.followUps.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    {selectedLead.followUps.map(followUp => (
+                      <div key={followUp.step} className="bg-slate-900/30 p-3 rounded-lg border border-white/5 text-sm text-slate-300">
+                        <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">
+                          Follow-up {followUp.step} · {followUp.sentAt ? `Sent ${new Date(followUp.sentAt).toLocaleDateString()}` : "Not sent yet"}
+                          {!isCompliant(followUp.complianceIssues) && (
+                            <span className="ml-2 text-red-400 normal-case tracking-normal" title={followUp.complianceIssues.map(i => i.message).join(" ")}>
+                              Fails compliance
+                            </span>
+                          )}
+                        </div>
+                        {followUp.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
             </div>
-            <div className="p-4 bg-navy-900 border-t border-white/10 flex justify-end">
+            <div className="p-4 bg-navy-900 border-t border-white/10 flex justify-end gap-3">
+                {/* A sent first text stays as it went out */}
+                {onUpdateLead && !selectedLead.sentAt && (messageDraft !== null ? (
+                  <>
+                    <button
+                        onClick={() => setMessageDraft(null)}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={saveMessageDraft}
+                        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-medium transition-colors"
+                    >
+                        Save
+                    </button>
+                  </>
+                ) : (
+                  <button
+                      onClick={() => setMessageDraft(selectedLead.outreachMessage)}
+                      className="flex items-center gap-2 px-4 py-2 bg-navy-700 hover:bg-navy-600 text-white rounded-lg text-sm font-medium border border-white/10 transition-colors"
+                  >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                  </button>
+                ))}
+                {onRegenerateMessage && messageDraft === null && !selectedLead.sentAt && (
+                  <button
+                      onClick={() => onRegenerateMessage(selectedLead.id)}
+                      disabled={regeneratingSet.has(selectedLead.id)}
+                      className="flex items-center gap-2 px-4 py-2 bg-navy-700 hover:bg-navy-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium border border-white/10 transition-colors"
+                  >
+                      <RefreshCw className={`w-4 h-4 ${regeneratingSet.has(selectedLead.id) ? 'animate-spin' : ''}`} />
+                      Regenerate
+                  </button>
+                )}
                 <button 
-                    onClick={() => setSelectedMessage(null)}
+                    onClick={() => setSelectedLeadId(null)}
                     className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
                 >
                     Close
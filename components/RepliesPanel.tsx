@@ -0,0 +1,72 @@
+import React from 'react';
+import { Lead, LeadStatus } from '../types';
+import { LEAD_STATUS_LABELS, getLeadStatus } from '../services/leadFilters';
+import { MessageCircle, Upload } from 'lucide-react';
+
+interface RepliesPanelProps {
+  leads: Lead[];
+  // Summary of the last batch of replies applied
+  notice: string | null;
+  webhookAvailable: boolean;
+  onImport: (file: File) => void;
+}
+
+// Pipeline stages after the first text, in order
+const PIPELINE: LeadStatus[] = ['contacted', 'replied', 'interested', 'wrong-number', 'opted-out'];
+
+const PIPELINE_COLORS: Partial<Record<LeadStatus, string>> = {
+  'contacted': 'text-accent-cyan',
+  'replied': 'text-white',
+  'interested': 'text-emerald-400',
+  'wrong-number': 'text-accent-orange',
+  'opted-out': 'text-red-400',
+};
+
+const RepliesPanel: React.FC<RepliesPanelProps> = ({ leads, notice, webhookAvailable, onImport }) => {
+  const counts = new Map<LeadStatus, number>();
+  leads.forEach(lead => {
+    const status = getLeadStatus(lead);
+    counts.set(status, (counts.get(status) || 0) + 1);
+  });
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <MessageCircle className="w-4 h-4 text-accent-cyan" />
+          <h2>Replies</h2>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300 bg-navy-700 hover:bg-navy-600 border border-white/10 px-3 py-1.5 rounded-lg cursor-pointer transition-colors">
+          <Upload className="w-3 h-3" />
+          Import Reply Log
+          <input type="file" accept=".csv, .xlsx, .xls" className="hidden" onChange={handleFileImport} />
+        </label>
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+        {PIPELINE.map(status => (
+          <div key={status} className="bg-navy-900/50 border border-white/5 rounded-lg px-3 py-2">
+            <span className="block text-[10px] text-slate-400 uppercase tracking-wide">{LEAD_STATUS_LABELS[status]}</span>
+            <span className={`text-xl font-bold ${PIPELINE_COLORS[status]}`}>{counts.get(status) || 0}</span>
+          </div>
+        ))}
+      </div>
+
+      {notice && <p className="text-xs text-slate-300 mt-3">{notice}</p>}
+      <p className="text-[10px] text-slate-500 mt-2">
+        {webhookAvailable
+          ? <>Replies arrive automatically when your SMS provider's incoming-message webhook points at <span className="font-mono">{window.location.origin}/api/sms/inbound</span>. </>
+          : "The app server is not reachable, so webhook replies can't be picked up. "}
+        Reply logs need a sender column and a message column. STOP replies are added to the Do-Not-Contact list.
+      </p>
+    </div>
+  );
+};
+
+export default RepliesPanel;
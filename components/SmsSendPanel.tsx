@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { SmsSettings } from '../types';
+import { formatHour } from '../services/smsSender';
+import { Send, Square, Moon, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface SmsSendPanelProps {
+  settings: SmsSettings;
+  onChange: (patch: Partial<SmsSettings>) => void;
+  queueCount: number;
+  gatewayName: string | null;
+  isQuietHours: boolean;
+  progress: { done: number; total: number } | null;
+  onSend: () => void;
+  onStop: () => void;
+}
+
+const inputClass = "w-full bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors";
+const labelClass = "block text-xs text-slate-400 uppercase tracking-wide mb-2";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const SmsSendPanel: React.FC<SmsSendPanelProps> = ({
+  settings,
+  onChange,
+  queueCount,
+  gatewayName,
+  isQuietHours,
+  progress,
+  onSend,
+  onStop,
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const handleNumber = (key: 'messagesPerMinute' | 'recipientCooldownHours', value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) onChange({ [key]: Math.max(min, parsed) });
+  };
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <Send className="w-4 h-4 text-accent-cyan" />
+          <h2>Send Messages</h2>
+          <span className="text-xs text-slate-400 font-normal">
+            {gatewayName === null
+              ? "(app server not reachable)"
+              : gatewayName === 'fake'
+                ? "(test gateway: nothing is really sent)"
+                : `(via ${gatewayName})`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          {progress ? (
+            <>
+              <span className="text-sm text-slate-300">Sending {progress.done} of {progress.total}</span>
+              <button
+                onClick={onStop}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600/80 hover:bg-red-500 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                <Square className="w-4 h-4" />
+                Stop
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onSend}
+              disabled={queueCount === 0 || isQuietHours || gatewayName === null}
+              className="flex items-center gap-2 px-4 py-2 bg-accent-cyan/80 hover:bg-accent-cyan text-navy-900 disabled:opacity-40 disabled:pointer-events-none rounded-lg text-sm font-medium transition-colors"
+            >
+              <Send className="w-4 h-4" />
+              Send {queueCount} Message{queueCount === 1 ? "" : "s"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-slate-500 mt-2">
+        Only new, compliant leads that are not opted out or waiting for review are sent, one per number, at most {settings.messagesPerMinute} per minute.
+      </p>
+      {isQuietHours && (
+        <p className="flex items-center gap-1 text-xs text-accent-orange mt-2">
+          <Moon className="w-3 h-3" />
+          Quiet hours ({formatHour(settings.quietHoursStart)} to {formatHour(settings.quietHoursEnd)} somewhere in the mainland US). Sending is paused.
+        </p>
+      )}
+
+      <button
+        onClick={() => setShowSettings(!showSettings)}
+        className="mt-4 flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        {showSettings ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        {showSettings ? "Hide sending rules" : "Sending rules (rate, quiet hours, access key)"}
+      </button>
+
+      {showSettings && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Messages per Minute</label>
+            <input
+              type="number"
+              min={1}
+              value={settings.messagesPerMinute}
+              onChange={(e) => handleNumber('messagesPerMinute', e.target.value, 1)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Don't Re-text Within (hours)</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.recipientCooldownHours}
+              onChange={(e) => handleNumber('recipientCooldownHours', e.target.value, 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>SMS Access Key</label>
+            <input
+              type="password"
+              value={settings.accessKey}
+              onChange={(e) => onChange({ accessKey: e.target.value })}
+              placeholder="The server's SMS_API_TOKEN"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Quiet Hours Start</label>
+            <select
+              value={settings.quietHoursStart}
+              onChange={(e) => onChange({ quietHoursStart: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Quiet Hours End</label>
+            <select
+              value={settings.quietHoursEnd}
+              onChange={(e) => onChange({ quietHoursEnd: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+            </select>
+          </div>
+          <p className="md:col-span-3 text-[10px] text-slate-500">
+            Quiet hours are the recipient's local time. Mainland numbers could be in any US time zone, so they are only
+            texted when it's outside quiet hours in every zone from Eastern to Pacific; Alaska, Hawaii and territory numbers use their own zone.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmsSendPanel;
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConfidenceField, Lead, LeadEdit, SourceDocument } from '../types';
+import { CONFIDENCE_FIELD_LABELS, REVIEW_CONFIDENCE, getLowConfidenceFields } from '../services/sourceReview';
+import EditableCell from './EditableCell';
+import { ScanSearch, X, Check, Trash2, ChevronLeft, ChevronRight, FileText, AlertTriangle } from 'lucide-react';
+
+interface SourceReviewPaneProps {
+  leads: Lead[];
+  sources: Map<string, SourceDocument>;
+  onUpdateLead: (id: string, edit: LeadEdit) => string | null;
+  onApprove: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Rows shown above and below the matching row of a text source
+const ROW_CONTEXT = 5;
+
+const buttonClass = "flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+const SourceView: React.FC<{ lead: Lead; source?: SourceDocument }> = ({ lead, source }) => {
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [lead.id]);
+
+  if (!source) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center text-sm text-slate-400 p-6 gap-2">
+        <FileText className="w-8 h-8 text-slate-600" />
+        <p>The source file is no longer in memory.</p>
+        <p className="text-xs text-slate-500">Uploads are only kept until the page is reloaded. Check the lead against {lead.sourceFile} directly.</p>
+      </div>
+    );
+  }
+
+  if (source.kind === 'image') {
+    const region = lead.sourceRegion;
+    return (
+      <div className="relative inline-block">
+        <img src={source.url} alt={lead.sourceFile} className="block max-w-full" />
+        {region && (
+          <div
+            ref={highlightRef}
+            className="absolute border-2 border-accent-orange bg-accent-orange/15 rounded pointer-events-none"
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if (source.kind === 'pdf') {
+    // The browser's PDF viewer can jump to a page but not highlight a region
+    return (
+      <iframe
+        key={lead.sourcePage}
+        src={`${source.url}#page=${lead.sourcePage || 1}`}
+        title={lead.sourceFile}
+        className="w-full h-full min-h-[60vh] bg-white"
+      />
+    );
+  }
+
+  const row = lead.sourceRow;
+  const start = row ? Math.max(1, row - ROW_CONTEXT) : 1;
+  const end = row ? Math.min(source.rows.length, row + ROW_CONTEXT) : Math.min(source.rows.length, ROW_CONTEXT * 2);
+  return (
+    <div className="font-mono text-xs">
+      {source.rows.slice(start - 1, end).map((text, i) => {
+        const rowNumber = start + i;
+        const isMatch = rowNumber === row;
+        return (
+          <div
+            key={rowNumber}
+            ref={isMatch ? highlightRef : undefined}
+            className={`flex gap-3 px-3 py-1 ${isMatch ? 'bg-accent-orange/15 text-white border-l-2 border-accent-orange' : 'text-slate-400'}`}
+          >
+            <span className="w-10 shrink-0 text-right text-slate-600">{rowNumber}</span>
+            <span className="whitespace-pre-wrap break-all">{text}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ConfidenceBadge: React.FC<{ value?: number }> = ({ value }) => {
+  if (value === undefined) return null;
+  const low = value < REVIEW_CONFIDENCE;
+  return (
+    <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${low ? 'bg-accent-orange/20 text-accent-orange' : 'bg-emerald-500/10 text-emerald-400'}`}>
+      {Math.round(value * 100)}%
+    </span>
+  );
+};
+
+const SourceReviewPane: React.FC<SourceReviewPaneProps> = ({ leads, sources, onUpdateLead, onApprove, onDelete, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const current = Math.min(index, leads.length - 1);
+  const lead = leads[current];
+
+  if (!lead) return null;
+
+  const lowFields = getLowConfidenceFields(lead);
+  const source = lead.sourceId ? sources.get(lead.sourceId) : undefined;
+  const location = lead.sourcePage
+    ? `Page ${lead.sourcePage}`
+    : lead.sourceRow
+      ? `Row ${lead.sourceRow}`
+      : lead.sourceRegion ? "Highlighted area" : "Location not reported";
+
+  const approveAndNext = () => {
+    onApprove(lead.id);
+    if (current < leads.length - 1) setIndex(current + 1);
+  };
+
+  const renderField = (field: ConfidenceField, inputClassName?: string) => (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-xs text-slate-400 uppercase tracking-wide">{CONFIDENCE_FIELD_LABELS[field]}</span>
+        <ConfidenceBadge value={lead.confidence?.[field]} />
+      </div>
+      <EditableCell
+        key={`${lead.id}-${field}`}
+        value={lead[field]}
+        onSave={(value) => onUpdateLead(lead.id, { [field]: value })}
+        className={`text-sm ${lowFields.includes(field) ? 'text-accent-orange' : 'text-white'}`}
+        inputClassName={`w-full ${inputClassName || ''}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-navy-800 border border-white/10 rounded-2xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-4 border-b border-white/10 flex justify-between items-center bg-navy-900">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <ScanSearch className="w-4 h-4 text-accent-cyan" />
+            Source Review
+            <span className="text-xs text-slate-400 font-normal">({current + 1} of {leads.length})</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          <div className="flex-1 min-h-0 overflow-auto bg-navy-900/50 p-4">
+            <SourceView lead={lead} source={source} />
+          </div>
+
+          <div className="md:w-80 shrink-0 border-t md:border-t-0 md:border-l border-white/10 p-5 space-y-5 overflow-y-auto">
+            <div className="text-xs text-slate-400 space-y-1">
+              <p className="truncate" title={lead.sourceFile}>{lead.sourceFile}</p>
+              <p>{location}</p>
+            </div>
+
+            {renderField('fullName')}
+            {renderField('phoneNumber', 'font-mono')}
+
+            {lowFields.length > 0 && !lead.reviewedAt && (
+              <p className="flex items-start gap-2 text-xs text-accent-orange">
+                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                Check the highlighted fields against the source. This lead is held back from export until it is approved.
+              </p>
+            )}
+            {lead.reviewedAt && (
+              <p className="flex items-center gap-2 text-xs text-emerald-400">
+                <Check className="w-3 h-3" />
+                Reviewed {new Date(lead.reviewedAt).toLocaleString()}
+              </p>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={approveAndNext}
+                disabled={Boolean(lead.reviewedAt)}
+                className={`${buttonClass} justify-center bg-emerald-600 hover:bg-emerald-500 text-white`}
+              >
+                <Check className="w-4 h-4" />
+                Looks Right
+              </button>
+              <button
+                onClick={() => onDelete(lead.id)}
+                className={`${buttonClass} justify-center bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/20`}
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete Lead
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-navy-900 border-t border-white/10 flex justify-between">
+          <button
+            onClick={() => setIndex(current - 1)}
+            disabled={current === 0}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Previous
+          </button>
+          <button
+            onClick={() => setIndex(current + 1)}
+            disabled={current >= leads.length - 1}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-white`}
+          >
+            Next
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceReviewPane;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { SuppressedNumber } from '../types';
+import { formatNationalPhone } from '../services/phoneNumber';
+import { ShieldOff, Upload, X, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface SuppressionPanelProps {
+  numbers: SuppressedNumber[];
+  onAdd: (text: string, source: string) => void;
+  onRemove: (phoneE164: string) => void;
+}
+
+const SuppressionPanel: React.FC<SuppressionPanelProps> = ({ numbers, onAdd, onRemove }) => {
+  const [pasted, setPasted] = useState("");
+  const [showList, setShowList] = useState(false);
+
+  const handlePasteAdd = () => {
+    if (!pasted.trim()) return;
+    onAdd(pasted, "Pasted");
+    setPasted("");
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => onAdd(reader.result as string, file.name);
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const sorted = [...numbers].sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+
+  return (
+    <div className="glass-card p-6 rounded-2xl border border-white/5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <ShieldOff className="w-4 h-4 text-red-400" />
+          <h2>Do-Not-Contact List</h2>
+          <span className="text-xs text-slate-400 font-normal">({numbers.length} numbers)</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300 bg-navy-700 hover:bg-navy-600 border border-white/10 px-3 py-1.5 rounded-lg cursor-pointer transition-colors">
+          <Upload className="w-3 h-3" />
+          Import CSV
+          <input type="file" accept=".csv, .txt" className="hidden" onChange={handleFileImport} />
+        </label>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="Paste numbers that replied STOP, one per line or comma separated"
+          rows={2}
+          className="flex-1 bg-navy-900/50 border border-white/10 rounded-lg px-4 py-3 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-accent-cyan/50 transition-colors resize-none"
+        />
+        <button
+          onClick={handlePasteAdd}
+          disabled={!pasted.trim()}
+          className="px-4 py-2 bg-red-600/80 hover:bg-red-500 disabled:opacity-40 disabled:pointer-events-none text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          Add to List
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500 mt-1">Leads with these numbers are flagged as opted out and left out of exports.</p>
+
+      {numbers.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowList(!showList)}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            {showList ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            {showList ? "Hide numbers" : "Show numbers"}
+          </button>
+          {showList && (
+            <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-white/5 rounded-lg border border-white/5">
+              {sorted.map(entry => (
+                <li key={entry.phoneE164} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="font-mono text-slate-300">{formatNationalPhone(entry.phoneE164.slice(2))}</span>
+                  <span className="text-xs text-slate-500 truncate mx-3 flex-1" title={entry.source}>
+                    {entry.source} · {new Date(entry.addedAt).toLocaleDateString()}
+                  </span>
+                  <button
+                    onClick={() => onRemove(entry.phoneE164)}
+                    className="text-slate-500 hover:text-red-400 transition-colors"
+                    title="Remove from list"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SuppressionPanel;
@@ -0,0 +1,462 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { AiErrorKind, AiSettings, FollowUpContext, LeadInput, SmsGateway, SmsSendResult } from "../types";
+import { AiServiceError } from "../services/aiErrors";
+import { createGeminiProvider } from "../services/geminiService";
+import { normalizeProfile } from "../services/campaignProfiles";
+import { cleanExtraFieldValues, normalizeExtraFields } from "../services/extraFields";
+import { normalizeFollowUpSteps } from "../services/followUps";
+import { normalizePhone } from "../services/phoneNumber";
+import { classifyReply } from "../services/replies";
+import { createRateLimiter } from "./rateLimiter";
+import { createReplyInbox } from "./replyInbox";
+import { createSuppressionStore } from "./suppressionStore";
+
+// A PDF page or photo as base64, plus JSON overhead
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+// The browser runs three AI calls at a time, so one large upload (a call
+// per chunk, then one per 25 leads) can make well over 60 a minute
+export const DEFAULT_AI_REQUESTS_PER_MINUTE = 120;
+
+// Models the browser may use when GEMINI_MODELS isn't set
+export const DEFAULT_GEMINI_MODELS = ["gemini-2.5-flash", "gemini-2.5-flash-lite"];
+
+/**
+ * Reads a comma-separated GEMINI_MODELS value, falling back to the defaults.
+ */
+export const parseModelList = (value: string | undefined): string[] => {
+  const models = (value || "").split(",").map(m => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : DEFAULT_GEMINI_MODELS;
+};
+
+// Status sent with each kind of failure; the browser reads the kind back
+const ERROR_STATUS: Record<AiErrorKind, number> = {
+  'auth': 502,
+  'access-denied': 401,
+  'rate-limit': 429,
+  'unavailable': 503,
+  'blocked': 422,
+  'unsupported': 415,
+  'model-not-allowed': 400,
+  'malformed-output': 502,
+  'no-leads': 422,
+  'unknown': 502,
+};
+
+// Longest body a single text may have (10 concatenated segments)
+const MAX_SMS_LENGTH = 1600;
+
+// Status lookups per request when polling for delivery
+const MAX_STATUS_IDS = 100;
+
+// Status, suppression and reply requests per client per minute; the app
+// polls well under this
+const SMS_API_REQUESTS_PER_MINUTE = 60;
+
+const E164_PATTERN = /^\+1\d{10}$/;
+
+// Twilio expects TwiML back from a webhook; an empty response sends no auto-reply
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+export interface ApiOptions {
+  apiKey?: string;
+  // Browsers must send "Authorization: Bearer <this>" on the AI routes.
+  // Without it only this machine may use them.
+  aiApiToken?: string;
+  // Gemini models the browser may ask for; the key is the server's, so it decides
+  allowedModels: string[];
+  // AI requests allowed per client per minute
+  requestsPerMinute: number;
+  smsGateway: SmsGateway;
+  // Texts the server may send per minute, across all clients
+  smsPerMinute?: number;
+  // Browsers must send "Authorization: Bearer <this>" on the SMS routes.
+  // Required once a real gateway is configured.
+  smsApiToken?: string;
+  // Where the server's Do-Not-Contact list is saved
+  suppressionFile?: string;
+  // Use X-Forwarded-For to identify clients (only behind a trusted proxy)
+  trustProxy?: boolean;
+  // The inbound SMS webhook must be called with ?token=<this>. Required
+  // once a real gateway is configured.
+  webhookToken?: string;
+}
+
+type Next = () => void;
+
+class BadRequestError extends Error {}
+
+class ForbiddenError extends Error {}
+
+class UnauthorizedError extends Error {}
+
+const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress || "unknown";
+};
+
+/**
+ * Reads a JSON body, or a form-encoded one (what SMS webhooks post).
+ */
+const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BadRequestError("Request body too large");
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if ((req.headers["content-type"] || "").startsWith("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  try {
+    const body = JSON.parse(text);
+    if (typeof body !== "object" || body === null) throw new Error();
+    return body;
+  } catch {
+    throw new BadRequestError("Request body must be a JSON object");
+  }
+};
+
+const LOOPBACK_PATTERN = /^(127\.|::1$|::ffff:127\.)/;
+
+const readBearerToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+};
+
+const tokensMatch = (given: string | null, expected: string): boolean => {
+  const a = Buffer.from(given || "");
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Only model and temperatures come from the browser; the provider is
+ * always Gemini with the server's key, and the model must be one it allows.
+ */
+const readSettings = (value: unknown, allowedModels: string[]): AiSettings => {
+  const settings = (value || {}) as Partial<AiSettings>;
+  const temperature = (t: unknown, fallback: number) =>
+    typeof t === "number" && t >= 0 && t <= 2 ? t : fallback;
+  if (typeof settings.model !== "string" || !settings.model.trim()) {
+    throw new BadRequestError("settings.model is required");
+  }
+  if (!allowedModels.includes(settings.model.trim())) throw new AiServiceError('model-not-allowed');
+  return {
+    provider: 'gemini',
+    model: settings.model.trim(),
+    extractionTemperature: temperature(settings.extractionTemperature, 0.1),
+    messageTemperature: temperature(settings.messageTemperature, 1.2),
+    baseUrl: "",
+    apiKey: "",
+    accessKey: "",
+  };
+};
+
+const readLeads = (value: unknown): LeadInput[] => {
+  if (!Array.isArray(value)) throw new BadRequestError("leads must be an array");
+  return value.map(item => {
+    if (typeof item?.fullName !== "string" || typeof item?.phoneNumber !== "string") {
+      throw new BadRequestError("Each lead needs fullName and phoneNumber");
+    }
+    const sourcePage = typeof item.sourcePage === "number" ? item.sourcePage : undefined;
+    const language = item.language === 'es' ? 'es' as const : undefined;
+    const previousMessages = Array.isArray(item.previousMessages)
+      ? item.previousMessages.filter((m: unknown): m is string => typeof m === "string")
+      : undefined;
+    return {
+      fullName: item.fullName,
+      phoneNumber: item.phoneNumber,
+      sourcePage,
+      extraFields: cleanExtraFieldValues(item.extraFields),
+      language,
+      previousMessages,
+    };
+  });
+};
+
+const readFollowUp = (value: unknown): FollowUpContext | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const [step] = normalizeFollowUpSteps([value]) || [];
+  const { step: number, totalSteps } = value as Record<string, unknown>;
+  if (!step || typeof number !== "number" || typeof totalSteps !== "number" || number < 1 || number > totalSteps) {
+    throw new BadRequestError("followUp needs delayDays, instructions, step and totalSteps");
+  }
+  return { ...step, step: number, totalSteps };
+};
+
+interface RouteResult {
+  body: unknown;
+  // Short note for the request log
+  outcome: string;
+  // Send body as-is with this type instead of as JSON
+  contentType?: string;
+}
+
+interface Route {
+  // Checked before the body is read: 0 to go ahead, otherwise milliseconds
+  // to wait. null means no limit.
+  limiter: ((client: string) => number) | null;
+  // Throws when the caller may not use the route; checked before the limiter
+  auth?: (req: IncomingMessage) => void;
+  handle: (body: Record<string, unknown>, query: URLSearchParams) => Promise<RouteResult>;
+}
+
+/**
+ * Connect-style handler for the /api routes. Used by server/index.ts in
+ * production and mounted on the Vite dev server by vite.config.ts.
+ *
+ * POST /api/extract     { fileContent, mimeType, settings, fields? } -> { leads }
+ * POST /api/messages    { leads, profile, avoidMessages, settings } -> { messages }
+ * POST /api/sms/send    { to, body } -> { id, status, error? }
+ * POST /api/sms/status  { ids } -> { results }
+ * POST /api/sms/suppression { add?: SuppressedNumber[], remove?: string[] } -> { ok }
+ * POST /api/sms/inbound { From, Body, MessageSid } (Twilio form post, or JSON from/body) -> TwiML
+ * POST /api/sms/replies { since } -> { replies, optOuts }
+ * GET  /api/health      -> { ok, hasKey, models, smsGateway }
+ *
+ * The AI routes need the AI API token, or a request from this machine.
+ * The SMS routes, apart from the inbound webhook, need the SMS API token.
+ */
+export const createApiHandler = ({
+  apiKey,
+  aiApiToken,
+  allowedModels,
+  requestsPerMinute,
+  smsGateway,
+  smsPerMinute = 60,
+  smsApiToken,
+  suppressionFile,
+  trustProxy = false,
+  webhookToken,
+}: ApiOptions) => {
+  const gemini = createGeminiProvider(apiKey);
+  const allowAiRequest = createRateLimiter(requestsPerMinute, 60_000);
+  const allowSms = createRateLimiter(smsPerMinute, 60_000);
+  const allowSmsApi = createRateLimiter(SMS_API_REQUESTS_PER_MINUTE, 60_000);
+  const inbox = createReplyInbox();
+  const suppression = createSuppressionStore(suppressionFile);
+
+  // The routes spend the server's Gemini key, so they aren't open to anyone who can load the page
+  const checkAiAuth = (req: IncomingMessage) => {
+    if (!aiApiToken) {
+      if (LOOPBACK_PATTERN.test(getClientId(req, trustProxy))) return;
+      throw new AiServiceError('access-denied');
+    }
+    if (!tokensMatch(readBearerToken(req), aiApiToken)) throw new AiServiceError('access-denied');
+  };
+
+  const checkSmsAuth = (req: IncomingMessage) => {
+    if (!smsApiToken) {
+      // Only the test gateway may be used without a token, since it sends nothing
+      if (smsGateway.name === "fake") return;
+      throw new ForbiddenError("Set SMS_API_TOKEN on the server to use the SMS routes");
+    }
+    if (!tokensMatch(readBearerToken(req), smsApiToken)) throw new UnauthorizedError("Invalid SMS access key");
+  };
+
+  const routes: Record<string, Route> = {
+    "/api/extract": {
+      limiter: allowAiRequest,
+      auth: checkAiAuth,
+      handle: async (body) => {
+        const settings = readSettings(body.settings, allowedModels);
+        if (typeof body.fileContent !== "string" || typeof body.mimeType !== "string") {
+          throw new BadRequestError("fileContent and mimeType are required");
+        }
+        const leads = await gemini.extractLeads(body.fileContent, body.mimeType, settings, normalizeExtraFields(body.fields));
+        return { body: { leads }, outcome: `${leads.length} leads` };
+      },
+    },
+    "/api/messages": {
+      limiter: allowAiRequest,
+      auth: checkAiAuth,
+      handle: async (body) => {
+        const settings = readSettings(body.settings, allowedModels);
+        const leads = readLeads(body.leads);
+        const profile = normalizeProfile(body.profile);
+        if (!profile) throw new BadRequestError("profile is required");
+        const avoidMessages = Array.isArray(body.avoidMessages)
+          ? body.avoidMessages.filter((m): m is string => typeof m === "string")
+          : [];
+        const messages = await gemini.writeMessages(leads, profile, avoidMessages, settings, readFollowUp(body.followUp));
+        return { body: { messages }, outcome: `${messages.length} messages` };
+      },
+    },
+    "/api/sms/send": {
+      // One sending number, so the limit is for the whole server rather than per client
+      limiter: () => allowSms("server"),
+      auth: checkSmsAuth,
+      handle: async (body) => {
+        if (typeof body.to !== "string" || !E164_PATTERN.test(body.to)) {
+          throw new BadRequestError("to must be a +1 E.164 number");
+        }
+        if (typeof body.body !== "string" || !body.body.trim() || body.body.length > MAX_SMS_LENGTH) {
+          throw new BadRequestError(`body must be 1-${MAX_SMS_LENGTH} characters`);
+        }
+        if (suppression.has(body.to)) {
+          return { body: { id: "", status: 'failed', error: "Number is on the Do-Not-Contact list" }, outcome: "suppressed" };
+        }
+        let result: SmsSendResult;
+        try {
+          result = await smsGateway.send(body.to, body.body);
+        } catch (error) {
+          // Reported on the lead rather than as a server error
+          result = { id: "", status: 'failed', error: error instanceof Error ? error.message : "Send failed" };
+        }
+        return { body: result, outcome: `${smsGateway.name} ${result.status}` };
+      },
+    },
+    "/api/sms/status": {
+      limiter: allowSmsApi,
+      auth: checkSmsAuth,
+      handle: async (body) => {
+        const ids = Array.isArray(body.ids) ? body.ids.filter((id): id is string => typeof id === "string") : [];
+        if (ids.length === 0 || ids.length > MAX_STATUS_IDS) {
+          throw new BadRequestError(`ids must list 1-${MAX_STATUS_IDS} message ids`);
+        }
+        // A lookup that fails is left out; the browser asks again next time
+        const results = (await Promise.all(ids.map(id => smsGateway.getStatus(id).catch(() => null))))
+          .filter((result): result is SmsSendResult => result !== null);
+        return { body: { results }, outcome: `${results.length} statuses` };
+      },
+    },
+    "/api/sms/suppression": {
+      limiter: allowSmsApi,
+      auth: checkSmsAuth,
+      handle: async (body) => {
+        const added = Array.isArray(body.add) ? body.add : [];
+        const removed = Array.isArray(body.remove) ? body.remove : [];
+        const entries = added
+          .filter(item => typeof item?.phoneE164 === "string" && E164_PATTERN.test(item.phoneE164))
+          .map(item => ({
+            phoneE164: item.phoneE164,
+            addedAt: typeof item.addedAt === "string" ? item.addedAt : new Date().toISOString(),
+            source: typeof item.source === "string" ? item.source : "App",
+          }));
+        suppression.add(entries);
+        removed.filter((phone): phone is string => typeof phone === "string").forEach(suppression.remove);
+        return { body: { ok: true }, outcome: `${entries.length} added, ${removed.length} removed` };
+      },
+    },
+    "/api/sms/inbound": {
+      // Called by the SMS provider, not the browser
+      limiter: null,
+      handle: async (body, query) => {
+        if (!webhookToken) {
+          // Anyone could post fake STOP or YES replies to a real number's inbox
+          if (smsGateway.name !== "fake") throw new ForbiddenError("Set SMS_WEBHOOK_TOKEN to accept replies");
+        } else if (!tokensMatch(query.get("token"), webhookToken)) {
+          throw new ForbiddenError("Invalid webhook token");
+        }
+        const from = body.From ?? body.from;
+        const text = body.Body ?? body.body;
+        if (typeof from !== "string" || typeof text !== "string") {
+          throw new BadRequestError("From and Body are required");
+        }
+        const id = body.MessageSid ?? body.id;
+        const phoneE164 = normalizePhone(from).e164;
+        const receivedAt = new Date().toISOString();
+        inbox.add({
+          id: typeof id === "string" && id ? id : crypto.randomUUID(),
+          from: phoneE164 || from,
+          body: text.slice(0, MAX_SMS_LENGTH),
+          receivedAt,
+        });
+        // Saved on disk straight away: the inbox is lost on restart, an opt-out must not be
+        if (phoneE164 && classifyReply(text) === 'opt-out') {
+          suppression.add([{ phoneE164, addedAt: receivedAt, source: "STOP reply" }]);
+        }
+        return { body: EMPTY_TWIML, outcome: "reply stored", contentType: "text/xml" };
+      },
+    },
+    "/api/sms/replies": {
+      limiter: allowSmsApi,
+      auth: checkSmsAuth,
+      handle: async (body) => {
+        const since = typeof body.since === "string" ? body.since : "";
+        const replies = inbox.since(since);
+        // Also sent on their own, in case the replies themselves were dropped from the inbox
+        const optOuts = suppression.since(since);
+        return { body: { replies, optOuts }, outcome: `${replies.length} replies, ${optOuts.length} opt-outs` };
+      },
+    },
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const [path, queryString = ""] = (req.url || "").split("?");
+    if (!path.startsWith("/api/")) {
+      next?.();
+      return;
+    }
+
+    const started = Date.now();
+    const client = getClientId(req, trustProxy);
+    let outcome = "";
+
+    // One line per request; bodies are never logged since they hold driver details
+    res.on("finish", () => {
+      console.log(`${new Date().toISOString()} ${client} ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms${outcome ? ` ${outcome}` : ""}`);
+    });
+
+    try {
+      if (req.method === "GET" && path === "/api/health") {
+        sendJson(res, 200, { ok: true, hasKey: Boolean(apiKey), models: allowedModels, smsGateway: smsGateway.name });
+        return;
+      }
+
+      const route = routes[path];
+      if (req.method !== "POST" || !route) {
+        sendJson(res, 404, { error: { message: "Not found" } });
+        return;
+      }
+
+      // Before the limiter, so unauthenticated calls can't use up a shared budget
+      route.auth?.(req);
+      const waitMs = route.limiter ? route.limiter(client) : 0;
+      if (waitMs > 0) {
+        outcome = "rate-limit";
+        res.setHeader("Retry-After", String(Math.ceil(waitMs / 1000)));
+        sendJson(res, 429, { error: { kind: 'rate-limit' } });
+        return;
+      }
+
+      const result = await route.handle(await readBody(req), new URLSearchParams(queryString));
+      outcome = result.outcome;
+      if (result.contentType) {
+        res.setHeader("Content-Type", result.contentType);
+        res.end(String(result.body));
+      } else {
+        sendJson(res, 200, result.body);
+      }
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        outcome = "bad-request";
+        sendJson(res, 400, { error: { message: error.message } });
+      } else if (error instanceof UnauthorizedError) {
+        outcome = "unauthorized";
+        sendJson(res, 401, { error: { message: error.message } });
+      } else if (error instanceof ForbiddenError) {
+        outcome = "forbidden";
+        sendJson(res, 403, { error: { message: error.message } });
+      } else if (error instanceof AiServiceError) {
+        outcome = error.kind;
+        sendJson(res, ERROR_STATUS[error.kind], { error: { kind: error.kind } });
+      } else {
+        console.error("API error:", error);
+        outcome = "unknown";
+        sendJson(res, 500, { error: { kind: 'unknown' } });
+      }
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import http from "node:http";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadEnv } from "vite";
+import { DEFAULT_AI_REQUESTS_PER_MINUTE, createApiHandler, parseModelList } from "./api";
+import { createSmsGatewayFromEnv } from "./smsGateway";
+
+// Serves the built app from dist/ and the /api routes on one port.
+// Run with `npm start` (builds first); `npm run dev` serves the same
+// routes through the Vite dev server instead.
+
+const DIST_DIR = fileURLToPath(new URL("../dist/", import.meta.url));
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+// Same .env / .env.local files the Vite dev server reads
+const env = { ...loadEnv("production", process.cwd(), ""), ...process.env };
+const port = Number(env.PORT) || 8080;
+
+const handleApi = createApiHandler({
+  apiKey: env.GEMINI_API_KEY,
+  aiApiToken: env.AI_API_TOKEN || undefined,
+  allowedModels: parseModelList(env.GEMINI_MODELS),
+  requestsPerMinute: Number(env.API_RATE_LIMIT) || DEFAULT_AI_REQUESTS_PER_MINUTE,
+  smsGateway: createSmsGatewayFromEnv(env),
+  smsPerMinute: Number(env.SMS_RATE_LIMIT) || undefined,
+  smsApiToken: env.SMS_API_TOKEN || undefined,
+  suppressionFile: env.SMS_SUPPRESSION_FILE || "data/suppression.json",
+  trustProxy: env.TRUST_PROXY === "true",
+  webhookToken: env.SMS_WEBHOOK_TOKEN || undefined,
+});
+
+/**
+ * Sends a file from dist/, falling back to index.html so the app handles
+ * its own routes. Paths outside dist/ are refused.
+ */
+const serveStatic = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent((req.url || "/").split("?")[0]);
+  } catch {
+    res.statusCode = 400;
+    res.end();
+    return;
+  }
+  const filePath = path.join(DIST_DIR, urlPath === "/" ? "index.html" : urlPath);
+  if (!filePath.startsWith(DIST_DIR)) {
+    res.statusCode = 403;
+    res.end();
+    return;
+  }
+
+  try {
+    const content = await readFile(filePath);
+    res.setHeader("Content-Type", CONTENT_TYPES[path.extname(filePath)] || "application/octet-stream");
+    res.end(content);
+  } catch {
+    try {
+      res.setHeader("Content-Type", CONTENT_TYPES[".html"]);
+      res.end(await readFile(path.join(DIST_DIR, "index.html")));
+    } catch {
+      res.statusCode = 500;
+      res.end("App not built. Run `npm run build` first.");
+    }
+  }
+};
+
+http
+  .createServer((req, res) => {
+    handleApi(req, res, () => {
+      serveStatic(req, res).catch(error => {
+        console.error("Static file error:", error);
+        if (!res.headersSent) res.statusCode = 500;
+        res.end();
+      });
+    });
+  })
+  .listen(port, () => {
+    console.log(`Cold Leads server on http://localhost:${port}${env.GEMINI_API_KEY ? "" : " (GEMINI_API_KEY is not set)"}`);
+  });
@@ -0,0 +1,26 @@
+/**
+ * Sliding-window rate limiter keyed by client. Returns 0 when the request
+ * is allowed and records it; once the client is over the limit, the
+ * milliseconds until its oldest request leaves the window.
+ */
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const hits = new Map<string, number[]>();
+
+  return (key: string, now: number = Date.now()): number => {
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return windowMs - (now - recent[0]);
+    }
+    recent.push(now);
+    hits.set(key, recent);
+
+    // Forget idle clients so the map doesn't grow forever
+    if (hits.size > 1000) {
+      hits.forEach((times, client) => {
+        if (times.every(time => now - time >= windowMs)) hits.delete(client);
+      });
+    }
+    return 0;
+  };
+};
@@ -0,0 +1,23 @@
+import { InboundReply } from "../types";
+
+// Replies kept for the browser to pick up; older ones are dropped first
+const MAX_STORED_REPLIES = 1000;
+
+/**
+ * In-memory store for texts received by the SMS webhook. The browser polls
+ * for anything newer than the last reply it has seen and keeps its own copy
+ * on the matched leads. Opt-outs are also saved to the server's
+ * Do-Not-Contact list, so a restart or a full inbox can't lose them.
+ */
+export const createReplyInbox = (limit: number = MAX_STORED_REPLIES) => {
+  const replies: InboundReply[] = [];
+
+  return {
+    add: (reply: InboundReply) => {
+      replies.push(reply);
+      if (replies.length > limit) replies.splice(0, replies.length - limit);
+    },
+    since: (receivedAfter: string): InboundReply[] =>
+      replies.filter(reply => reply.receivedAt > receivedAfter),
+  };
+};
@@ -0,0 +1,112 @@
+import { SmsGateway, SmsSendResult, SmsSendStatus } from "../types";
+import { isRecord } from "../services/aiOutput";
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  // Any Twilio-compatible API (e.g. a regional edge or a provider clone)
+  baseUrl?: string;
+}
+
+// Twilio reports more states than the app tracks
+const TWILIO_STATUSES: Record<string, SmsSendStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'failed',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+const toSendResult = (data: unknown): SmsSendResult => {
+  const message = isRecord(data) ? data : {};
+  const status = (typeof message.status === "string" && TWILIO_STATUSES[message.status]) || 'sent';
+  const errorMessage = typeof message.error_message === "string" ? message.error_message : "";
+  return {
+    id: typeof message.sid === "string" ? message.sid : "",
+    status,
+    error: status === 'failed' ? errorMessage || `Error ${message.error_code ?? "unknown"}` : undefined,
+  };
+};
+
+/**
+ * Sends through the Twilio Messages REST API (or anything that speaks it).
+ */
+export const createTwilioGateway = ({ accountSid, authToken, from, baseUrl = "https://api.twilio.com" }: TwilioConfig): SmsGateway => {
+  const messagesUrl = `${baseUrl.replace(/\/+$/, "")}/2010-04-01/Accounts/${accountSid}/Messages`;
+  const authorization = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`;
+
+  const request = async (url: string, init: RequestInit = {}): Promise<unknown> => {
+    const response = await fetch(url, { ...init, headers: { ...init.headers, Authorization: authorization } });
+    const data: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(isRecord(data) && typeof data.message === "string" ? data.message : `SMS gateway returned ${response.status}`);
+    }
+    return data;
+  };
+
+  return {
+    name: "twilio",
+    send: async (to, body) => {
+      const data = await request(`${messagesUrl}.json`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+      });
+      return toSendResult(data);
+    },
+    getStatus: async (id) => toSendResult(await request(`${messagesUrl}/${encodeURIComponent(id)}.json`)),
+  };
+};
+
+// How long the fake gateway takes to "deliver" a message
+const FAKE_DELIVERY_MS = 5000;
+
+/**
+ * In-memory gateway for development and tests. Nothing is sent: messages
+ * are "delivered" a few seconds later, except to numbers ending in 0000,
+ * which fail so error handling can be tried out.
+ */
+export const createFakeGateway = (): SmsGateway => {
+  const messages = new Map<string, { to: string; sentAt: number }>();
+
+  return {
+    name: "fake",
+    send: async (to, body) => {
+      const id = `FAKE${crypto.randomUUID().replace(/-/g, "")}`;
+      messages.set(id, { to, sentAt: Date.now() });
+      console.log(`[fake sms] ${id} to ${to} (${body.length} chars)`);
+      return { id, status: 'sent' };
+    },
+    getStatus: async (id) => {
+      const message = messages.get(id);
+      if (!message) return { id, status: 'failed', error: "Unknown message id" };
+      if (Date.now() - message.sentAt < FAKE_DELIVERY_MS) return { id, status: 'sent' };
+      return message.to.endsWith("0000")
+        ? { id, status: 'failed', error: "Carrier rejected the message (fake gateway)" }
+        : { id, status: 'delivered' };
+    },
+  };
+};
+
+/**
+ * Twilio when TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM are all
+ * set; the fake gateway otherwise, so nothing is ever sent by accident.
+ */
+export const createSmsGatewayFromEnv = (env: Record<string, string | undefined>): SmsGateway => {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM, TWILIO_BASE_URL } = env;
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM) {
+    return createTwilioGateway({
+      accountSid: TWILIO_ACCOUNT_SID,
+      authToken: TWILIO_AUTH_TOKEN,
+      from: TWILIO_FROM,
+      baseUrl: TWILIO_BASE_URL || undefined,
+    });
+  }
+  return createFakeGateway();
+};
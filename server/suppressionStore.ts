@@ -0,0 +1,51 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { SuppressedNumber } from "../types";
+
+const readEntries = (filePath: string): SuppressedNumber[] => {
+  try {
+    const data: unknown = JSON.parse(readFileSync(filePath, "utf8"));
+    return Array.isArray(data)
+      ? data.filter((item): item is SuppressedNumber =>
+          typeof item?.phoneE164 === "string" && typeof item.addedAt === "string" && typeof item.source === "string")
+      : [];
+  } catch {
+    // No file yet
+    return [];
+  }
+};
+
+/**
+ * The server's Do-Not-Contact list. /api/sms/send refuses every number on
+ * it, whatever the browser sends. Saved to filePath on each change so it
+ * survives restarts; kept in memory only when no path is given (tests).
+ */
+export const createSuppressionStore = (filePath?: string) => {
+  const entries = new Map<string, SuppressedNumber>(
+    (filePath ? readEntries(filePath) : []).map(entry => [entry.phoneE164, entry])
+  );
+
+  // Written synchronously: the list is small and a lost opt-out is worse than a slow request
+  const save = () => {
+    if (!filePath) return;
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(Array.from(entries.values()), null, 2));
+  };
+
+  return {
+    has: (phoneE164: string) => entries.has(phoneE164),
+    // Numbers already on the list keep their original entry
+    add: (added: SuppressedNumber[]) => {
+      const fresh = added.filter(entry => !entries.has(entry.phoneE164));
+      if (fresh.length === 0) return;
+      fresh.forEach(entry => entries.set(entry.phoneE164, entry));
+      save();
+    },
+    remove: (phoneE164: string) => {
+      if (entries.delete(phoneE164)) save();
+    },
+    // Entries added after the given time (ISO), e.g. STOP replies for the browser to pick up
+    since: (addedAfter: string): SuppressedNumber[] =>
+      Array.from(entries.values()).filter(entry => entry.addedAt > addedAfter),
+  };
+};
@@ -0,0 +1,62 @@
+import { AiErrorKind } from "../types";
+
+// What the user can do about each kind of failure
+const ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  'auth': "The AI provider's API key is missing or invalid. For Gemini, set GEMINI_API_KEY in .env.local and restart the app; for other providers, check the AI settings.",
+  'access-denied': "The app server refused the AI request. Enter its AI_API_TOKEN as the Server Access Key in the AI settings.",
+  'rate-limit': "The AI provider's rate limit was reached. Wait a minute, then retry.",
+  'unavailable': "The AI provider is temporarily unavailable. Retry in a few minutes.",
+  'blocked': "The AI refused this content on safety grounds. Check the file, or add these leads by hand.",
+  'unsupported': "The selected AI provider can't read this file type. Switch to Gemini in the AI settings.",
+  'model-not-allowed': "The app server doesn't allow this Gemini model. Pick one listed in its GEMINI_MODELS setting in the AI settings.",
+  'malformed-output': "The AI reply could not be read. Retry, or split the file into smaller files.",
+  'no-leads': "No driver names or phone numbers were found. Check that the file contains a driver list.",
+  'unknown': "Could not reach the AI service. Check your connection and retry.",
+};
+
+/**
+ * A failed AI call, classified so the UI can say what went wrong and
+ * whether retrying makes sense. The message is always user-facing.
+ */
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+  status?: number;
+  // How long the server asked us to wait before retrying
+  retryAfterMs?: number;
+
+  constructor(kind: AiErrorKind, options: { status?: number; cause?: unknown; retryAfterMs?: number } = {}) {
+    super(ERROR_MESSAGES[kind], { cause: options.cause });
+    this.name = "AiServiceError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'unavailable';
+  }
+}
+
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof AiServiceError && error.retryable;
+
+export const getRetryAfterMs = (error: unknown): number | undefined =>
+  error instanceof AiServiceError ? error.retryAfterMs : undefined;
+
+/**
+ * Classifies a failed HTTP call by its status code. Errors that are already
+ * classified pass through unchanged.
+ */
+export const toAiServiceError = (error: unknown, status?: number): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+
+  // An invalid Gemini key comes back as a 400 rather than a 401
+  if (status === 401 || status === 403 || /api key/i.test(message)) {
+    return new AiServiceError('auth', { status, cause: error });
+  }
+  if (status === 429) return new AiServiceError('rate-limit', { status, cause: error });
+  if (status !== undefined && status >= 500) return new AiServiceError('unavailable', { status, cause: error });
+  return new AiServiceError('unknown', { status, cause: error });
+};
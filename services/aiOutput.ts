@@ -0,0 +1,112 @@
+import { ExtractedData, ExtraFieldDefinition, FieldConfidence, LeadInput, SourceRegion } from "../types";
+import { readExtraFieldValues } from "./extraFields";
+import { AiServiceError } from "./aiErrors";
+
+/**
+ * Helper to clean Markdown wrappers from JSON string.
+ */
+const cleanJsonOutput = (text: string) => {
+  if (!text) return "[]";
+  // Remove markdown code blocks (```json ... ```)
+  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Parses a model reply that should hold a JSON array. Models without
+ * structured output sometimes wrap the array in an object or in prose, so
+ * both are unwrapped.
+ */
+export const parseJsonArray = (text: string): unknown[] => {
+  const cleaned = cleanJsonOutput(text);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch (cause) {
+    const start = cleaned.indexOf("[");
+    const end = cleaned.lastIndexOf("]");
+    if (start === -1 || end <= start) throw new AiServiceError('malformed-output', { cause });
+    try {
+      parsed = JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+      throw new AiServiceError('malformed-output', { cause });
+    }
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  const wrapped = isRecord(parsed) ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (wrapped) return wrapped;
+  throw new AiServiceError('malformed-output');
+};
+
+// Some models answer in percent instead of 0-1
+const readConfidence = (value: unknown): number | undefined => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return undefined;
+  return Math.min(1, value > 1 ? value / 100 : value);
+};
+
+const readFieldConfidence = (value: unknown): FieldConfidence | undefined => {
+  if (!isRecord(value)) return undefined;
+  const confidence: FieldConfidence = {
+    fullName: readConfidence(value.fullName),
+    phoneNumber: readConfidence(value.phoneNumber),
+  };
+  return confidence.fullName === undefined && confidence.phoneNumber === undefined ? undefined : confidence;
+};
+
+/**
+ * Turns a [ymin, xmin, ymax, xmax] box scaled 0-1000 into fractions of the
+ * image. Boxes that are out of range or empty are dropped.
+ */
+const readBoundingBox = (value: unknown): SourceRegion | undefined => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === "number" && n >= 0 && n <= 1000)) {
+    return undefined;
+  }
+  const [yMin, xMin, yMax, xMax] = value as number[];
+  if (yMax <= yMin || xMax <= xMin) return undefined;
+  return { x: xMin / 1000, y: yMin / 1000, width: (xMax - xMin) / 1000, height: (yMax - yMin) / 1000 };
+};
+
+/**
+ * Keeps the extracted rows that have a name and a number; anything else is
+ * dropped on its own instead of failing the whole file.
+ */
+export const toLeadInputs = (items: unknown[], fields: ExtraFieldDefinition[] = []): LeadInput[] => {
+  const rows: LeadInput[] = [];
+  items.forEach(item => {
+    if (!isRecord(item) || typeof item.fullName !== "string" || typeof item.phoneNumber !== "string" || !item.phoneNumber.trim()) {
+      console.warn("Dropped malformed extraction row:", item);
+      return;
+    }
+    rows.push({
+      fullName: item.fullName.trim(),
+      phoneNumber: item.phoneNumber.trim(),
+      confidence: readFieldConfidence(item.confidence),
+      sourceRow: Number.isInteger(item.sourceRow) && (item.sourceRow as number) > 0 ? item.sourceRow as number : undefined,
+      sourceRegion: readBoundingBox(item.boundingBox),
+      extraFields: readExtraFieldValues(item.extraFields, fields),
+    });
+  });
+  return rows;
+};
+
+/**
+ * Pairs written messages with the leads they were written for, by phone
+ * number and then by position. Names and numbers always come from the
+ * leads, never from the model; rows without a usable message are left
+ * empty and caught by the compliance check.
+ */
+export const matchMessages = (leads: LeadInput[], items: unknown[]): ExtractedData[] => {
+  const parsedData = items.map(item => ({
+    phoneNumber: isRecord(item) && typeof item.phoneNumber === "string" ? item.phoneNumber : "",
+    outreachMessage: isRecord(item) && typeof item.outreachMessage === "string" ? item.outreachMessage.trim() : "",
+  }));
+
+  const byPhone = new Map(parsedData.map(item => [item.phoneNumber, item.outreachMessage]));
+  return leads.map((lead, index) => ({
+    ...lead,
+    outreachMessage: byPhone.get(lead.phoneNumber) || parsedData[index]?.outreachMessage || "",
+  }));
+};
@@ -0,0 +1,170 @@
+import { CampaignProfile, ExtraFieldDefinition, FollowUpContext, LeadInput } from "../types";
+import { getExtraFieldsInstruction } from "./extraFields";
+import { MAX_MESSAGE_LENGTH, getOptOutSuffix } from "./complianceRules";
+
+// Prompts shared by every AI provider. Providers with structured output
+// (Gemini) enforce the JSON shape with a schema; the others append the
+// *_FORMAT notes below to the system instruction.
+
+const getFollowUpRules = (followUp: FollowUpContext) => `
+### FOLLOW-UP ${followUp.step} OF ${followUp.totalSteps} (day ${followUp.delayDays}):
+These drivers got a first text ${followUp.delayDays} days ago and haven't replied. Each driver comes with "previousMessages", the texts they already got.
+${followUp.instructions.trim() || "A short, friendly check-in."}
+- Do NOT reuse the opening, hook or wording of that driver's previous messages.
+- Don't write as if it were the first contact. Keep it shorter than the first text.${
+  followUp.step === followUp.totalSteps ? "\n- This is the last text in the sequence." : ""
+}
+`;
+
+const getSmsRules = (profile: CampaignProfile, followUp?: FollowUpContext) => {
+  const { senderName, companyName, roleDescription } = profile;
+  const hasSender = senderName && senderName.trim().length > 0;
+  const hasCompany = companyName && companyName.trim().length > 0;
+  const role = roleDescription.trim() || "job";
+
+  const senderContext = hasSender ? `Sender Name: "${senderName}"` : `Sender Name: NOT PROVIDED (Do NOT invent a name).`;
+  const companyContext = hasCompany ? `Company Name: "${companyName}"` : `Company Name: NOT PROVIDED (Do NOT invent a company name).`;
+
+  const introRule = hasSender && hasCompany 
+    ? `- "Hi [Name], ${senderName} from ${companyName} here"`
+    : hasSender 
+      ? `- "Hi [Name], it's ${senderName} reaching out"`
+      : hasCompany
+        ? `- "Hi [Name], reaching out from ${companyName}"`
+        : `- "Hi [Name], reaching out regarding a ${role} opportunity" (Skip names entirely)`;
+
+  const offerings = profile.jobOfferings.map(o => o.trim()).filter(Boolean);
+  const offeringList = offerings.length > 0
+    ? offerings.map(o => `- **${o}**`).join("\n")
+    : `- (None listed. Speak generally about ${role} opportunities.)`;
+  const hookExamples = [
+    ...offerings.slice(0, 4).map(o => `   - "Are you interested in **${o.toLowerCase()}**?"`),
+    `   - "Are you open to ${role} opportunities?"`,
+    `   - "Would you be open to hearing about a new ${role} position?"`,
+  ].join("\n");
+
+  // [Sender] and [Company] are filled from the profile; examples that need
+  // one that isn't set are left out so the model can't copy a made-up identity
+  const examples = profile.exampleMessages
+    .map(m => m.trim()
+      .replace(/\[Sender\]/gi, hasSender ? senderName.trim() : "[Sender]")
+      .replace(/\[Company\]/gi, hasCompany ? companyName.trim() : "[Company]"))
+    .filter(m => m && !/\[(Sender|Company)\]/i.test(m));
+  const exampleSection = examples.length > 0
+    ? `
+### EXAMPLE VARIATIONS (Style reference only. ADAPT the identity to the inputs above and never copy them word for word):
+${examples.map(m => `- "${m}"`).join("\n")}
+`
+    : "";
+
+  return `
+### CONTEXT - INPUTS:
+${senderContext}
+${companyContext}
+Role being recruited: ${role}
+Job Types available (Mention these variously):
+${offeringList}
+
+### TONE:
+${profile.tone.trim() || "Friendly and professional."}
+${followUp ? getFollowUpRules(followUp) : ""}
+### SMS GENERATION RULES (CRITICAL - STRICT VARIETY REQUIRED):
+For EACH extracted driver, generate a **COMPLETELY UNIQUE** 'outreachMessage'.
+**The user will be flagged for spam if messages look like templates. You MUST vary the phrasing.**
+
+1. **NO REPETITION**: Do not use the same opening sentence structure twice in a row.
+2. **Handle Identity (Strictly based on Inputs)**:
+   ${introRule}
+   - IF Sender Name is empty: DO NOT use "I'm [Name]" or "This is [Name]".
+   - IF Company Name is empty: DO NOT use "from [Company]" or "with [Company]".
+3. **Vary the "Hook" (Integrate Job Details)**:
+${hookExamples}
+   - *NOTE: Do not list all perks in one message. Pick ONE or NONE per message to keep it natural.*
+   - If a driver comes with "details" (endorsements, CDL class, location, experience...), pick a hook that fits them.
+     Only pitch work that needs an endorsement (e.g. Hazmat or tanker loads) to drivers who have that endorsement.
+     Never mention a detail the driver wasn't given.
+4. **Vary the Syntax**: Change the order of the introduction and the question.
+5. **Call to Action**: ${profile.callToAction.trim() || "Ask whether they are open to hearing more."}
+6. Replace [Name] with the driver's actual first name. Never leave placeholders in brackets.
+
+### LANGUAGE:
+Each driver has a "language": "en" = English, "es" = Spanish. Write the WHOLE message in that language, the way a native speaker texts.
+Keep names and company names as they are. Keep trucking terms with no common translation (e.g. "drop and hook") in English.
+In Spanish, write without the accented letters á, í, ó and ú (e.g. "informacion", "aqui"); ñ and é are fine.
+
+**Compliance Rules (Must apply to ALL):**
+1. English messages must END with "${getOptOutSuffix(profile, 'en')}".
+   Spanish messages must END with "${getOptOutSuffix(profile, 'es')}".
+2. Keep every message, opt-out text included, under ${MAX_MESSAGE_LENGTH.gsm7} characters.
+   A single emoji or á/í/ó/ú switches the text to an encoding where the limit is ${MAX_MESSAGE_LENGTH.ucs2} characters, so never use them.
+${followUp ? "" : exampleSection}`;
+};
+
+export const getExtractionInstruction = (fields: ExtraFieldDefinition[]) => `
+You are an expert AI Recruitment Assistant. 
+Your task is to extract driver leads from images or text.
+
+### EXTRACTION RULES:
+1. Extract "Full Name" and "Phone Number" for drivers.
+2. STRICTLY FILTER: Only extract drivers with MOBILE/CELL numbers. 
+   - IGNORE Landlines, Work, Office, or Corporate numbers.
+   - IGNORE entries with no phone number.
+3. PRIVACY: DO NOT extract SSNs, DOBs, or street addresses.
+4. Normalization: Format all phone numbers as (XXX) XXX-XXXX.
+5. Copy names exactly as written. Do NOT guess or complete partial names.
+
+### CONFIDENCE AND LOCATION (for every driver):
+1. "confidence": for "fullName" and "phoneNumber", how sure you are (0 to 1) that the value was read correctly.
+   Use less than 0.8 for blurry, handwritten, cut-off or partly hidden values, or when a digit could be another digit.
+2. Images and documents: "boundingBox" = [ymin, xmin, ymax, xmax] around the driver's entry, scaled 0-1000.
+3. Text: "sourceRow" = the line number the driver came from (the first line of the text is 1).
+${getExtraFieldsInstruction(fields)}`;
+
+export const getMessageInstruction = (profile: CampaignProfile, followUp?: FollowUpContext) => `
+You are an expert AI Recruitment Assistant. 
+Your task is to write compliant SMS messages for a list of drivers that has already been extracted.
+
+### INPUT RULES:
+1. You receive a JSON array of drivers with "fullName", "phoneNumber", "language" and sometimes "details".
+2. Return the SAME drivers in the SAME order. Copy "fullName" and "phoneNumber" exactly as given.
+3. Only write the 'outreachMessage' field. Do NOT add, remove or merge drivers.
+${getSmsRules(profile, followUp)}`;
+
+export const getExtractionFormat = (fields: ExtraFieldDefinition[]) => `
+### OUTPUT FORMAT:
+Respond with a JSON array only, no other text:
+[{"fullName": "...", "phoneNumber": "...", "confidence": {"fullName": 0.95, "phoneNumber": 0.9}, "sourceRow": 2, "boundingBox": [120, 40, 160, 960]${
+  fields.length > 0 ? `, "extraFields": {${fields.map(f => `"${f.key}": ...`).join(", ")}}` : ""
+}}]
+Leave out "sourceRow" for images and "boundingBox" for text.
+`;
+
+export const MESSAGE_FORMAT = `
+### OUTPUT FORMAT:
+Respond with a JSON array only, no other text: [{"fullName": "...", "phoneNumber": "...", "outreachMessage": "..."}]
+`;
+
+export const getExtractionRequest = (text: string) =>
+  `Extract the driver list from the following text data:\n\n${text}`;
+
+export const getDocumentExtractionRequest = (mimeType: string) =>
+  `Extract the driver list from this ${mimeType === "application/pdf" ? "document" : "image"}. Return valid JSON.`;
+
+/**
+ * The user turn for message writing: only names, numbers, languages, the
+ * extra details and (for follow-ups) earlier texts are sent.
+ * @param avoidMessages Existing messages the new ones must not resemble
+ */
+export const getMessageRequest = (leads: LeadInput[], avoidMessages: string[] = []) => {
+  const avoidText = avoidMessages.length > 0
+    ? `\n\nThese messages were already written for other drivers in this batch. Do NOT reuse their openings, hooks or sentence structure:\n${avoidMessages.map(m => `- ${m}`).join("\n")}`
+    : "";
+  const drivers = leads.map(({ fullName, phoneNumber, extraFields, language, previousMessages }) => ({
+    fullName,
+    phoneNumber,
+    language: language || 'en',
+    ...(extraFields && { details: extraFields }),
+    ...(previousMessages && { previousMessages }),
+  }));
+  return `Write one outreachMessage for each of these drivers:\n\n${JSON.stringify(drivers)}${avoidText}`;
+};
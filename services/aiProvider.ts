@@ -0,0 +1,80 @@
+import { AiProvider, AiProviderId, AiSettings, CampaignProfile, ExtraFieldDefinition, ExtractedData, FollowUpContext, LeadInput } from "../types";
+import { AiServiceError } from "./aiErrors";
+import { proxyProvider } from "./proxyProvider";
+import { openAiProvider } from "./openAiProvider";
+import { mockProvider } from "./mockProvider";
+
+const AI_SETTINGS_KEY = "cold-leads.aiSettings";
+
+export const AI_PROVIDERS: Record<AiProviderId, { label: string; defaultModel: string; provider: AiProvider }> = {
+  // Gemini calls go through the app server so the API key stays there
+  gemini: { label: "Google Gemini", defaultModel: "gemini-2.5-flash", provider: proxyProvider },
+  openai: { label: "OpenAI-compatible server", defaultModel: "gpt-4o-mini", provider: openAiProvider },
+  mock: { label: "Offline mock (development)", defaultModel: "mock", provider: mockProvider },
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: AI_PROVIDERS.gemini.defaultModel,
+  // Extraction should copy what is in the file, not get creative
+  extractionTemperature: 0.1,
+  // Message writing needs variety so carriers don't see a template
+  messageTemperature: 1.2,
+  baseUrl: "http://localhost:11434/v1",
+  apiKey: "",
+  accessKey: "",
+};
+
+/**
+ * Reads the saved AI settings from this browser, filling in anything missing.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || "{}");
+    const settings = { ...DEFAULT_AI_SETTINGS, ...stored };
+    return settings.provider in AI_PROVIDERS ? settings : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Extracts driver names and numbers from a file with the selected provider.
+ * Messages are written separately by generateOutreachMessages.
+ * @param fileContent Base64 string (for images and PDFs) or raw text string
+ * @param mimeType Mime type of the file
+ * @param fields Extra details to pull out besides name and number
+ */
+export const extractLeadsFromFile = async (
+  fileContent: string,
+  mimeType: string,
+  settings: AiSettings,
+  fields: ExtraFieldDefinition[] = []
+): Promise<LeadInput[]> => {
+  const rows = await AI_PROVIDERS[settings.provider].provider.extractLeads(fileContent, mimeType, settings, fields);
+  if (rows.length === 0) throw new AiServiceError('no-leads');
+  return rows;
+};
+
+/**
+ * Writes outreach messages for leads that were already extracted (by the AI
+ * or from a spreadsheet). Names and numbers are never taken from the model.
+ * @param leads Rows with fullName and phoneNumber
+ * @param profile Campaign profile (identity, job offerings, tone, opt-out suffix)
+ * @param avoidMessages Existing messages the new ones must not resemble
+ * @param followUp The sequence step to write, for follow-up texts
+ */
+export const generateOutreachMessages = async (
+  leads: LeadInput[],
+  profile: CampaignProfile,
+  settings: AiSettings,
+  avoidMessages: string[] = [],
+  followUp?: FollowUpContext
+): Promise<ExtractedData[]> => {
+  if (leads.length === 0) return [];
+  return AI_PROVIDERS[settings.provider].provider.writeMessages(leads, profile, avoidMessages, settings, followUp);
+};
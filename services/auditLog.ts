@@ -0,0 +1,55 @@
+import * as XLSX from 'xlsx';
+import { AuditLogEntry } from "../types";
+import { AI_PROVIDERS } from "./aiProvider";
+import { ExportFile } from "./leadExport";
+import { REDACTION_LABELS } from "./piiRedaction";
+import { LANGUAGE_SETTING_LABELS } from "./messageLanguage";
+
+export const AUDIT_SENT_LABELS: Record<AuditLogEntry['sent'], string> = {
+  text: "Text (after redaction)",
+  image: "Image",
+  pdf: "PDF pages",
+  names: "Mapped rows only",
+};
+
+/**
+ * Describes what was masked, e.g. "2 Social Security numbers, 1 Date of birth".
+ */
+export const describeRedactionCounts = (counts: AuditLogEntry['redactions']): string =>
+  Object.entries(counts)
+    .map(([kind, count]) => `${count} ${REDACTION_LABELS[kind as keyof typeof REDACTION_LABELS]}${count === 1 ? "" : "s"}`)
+    .join(", ");
+
+const toRow = (entry: AuditLogEntry) => ({
+  "Sent At": entry.sentAt,
+  "File": entry.fileName,
+  "File Type": entry.fileType,
+  "Content Sent": AUDIT_SENT_LABELS[entry.sent],
+  "Provider": AI_PROVIDERS[entry.provider]?.label || entry.provider,
+  "Model": entry.model,
+  "Leads Returned": entry.leadCount,
+  "Skipped (Invalid Numbers)": entry.skippedCount,
+  "Error": entry.error || "",
+  "Redacted": describeRedactionCounts(entry.redactions),
+  "Campaign Profile": entry.campaign.profileName,
+  "Sender Name": entry.campaign.senderName,
+  "Company Name": entry.campaign.companyName,
+  // Entries logged before the language setting existed were English only
+  "Message Language": LANGUAGE_SETTING_LABELS[entry.campaign.language] || "English",
+  "Opt-Out Text": entry.campaign.optOutSuffix,
+  "Opt-Out Text (Spanish)": entry.campaign.spanishOptOutSuffix || "",
+  "Extra Fields": entry.extraFields.join(", "),
+});
+
+/**
+ * Builds the audit log download for a compliance review. JSON keeps every
+ * entry as stored; CSV has one readable row per file sent.
+ */
+export const buildAuditLogFile = (entries: AuditLogEntry[], format: 'csv' | 'json'): ExportFile => {
+  const baseName = `Extraction_Audit_Log_${new Date().toISOString().split('T')[0]}`;
+  if (format === 'json') {
+    return { name: `${baseName}.json`, blob: new Blob([JSON.stringify(entries, null, 2)], { type: "application/json" }) };
+  }
+  const sheet = XLSX.utils.json_to_sheet(entries.map(toRow));
+  return { name: `${baseName}.csv`, blob: new Blob([XLSX.utils.sheet_to_csv(sheet)], { type: "text/csv" }) };
+};
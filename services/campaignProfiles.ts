@@ -0,0 +1,124 @@
+import { CampaignProfile, CampaignSettings } from "../types";
+import { DEFAULT_OPT_OUT_SUFFIX, DEFAULT_SPANISH_OPT_OUT_SUFFIX } from "./complianceRules";
+import { LANGUAGE_SETTING_LABELS } from "./messageLanguage";
+import { DEFAULT_FOLLOW_UP_STEPS, normalizeFollowUpSteps } from "./followUps";
+
+export const DEFAULT_PROFILE_ID = "default-cdl";
+
+const EXPORT_VERSION = 1;
+
+/**
+ * The original CDL driver campaign, used when no profiles have been saved yet.
+ */
+export const createDefaultProfile = (): CampaignProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: "CDL Drivers",
+  senderName: "",
+  companyName: "",
+  roleDescription: "CDL",
+  jobOfferings: ["Drop and Hook", "Dedicated Lanes", "Mail Loads"],
+  tone: "Friendly, casual and short. Sound like a real recruiter texting, not an ad.",
+  callToAction: "Ask whether they are open to hearing more or currently looking for a position.",
+  optOutSuffix: DEFAULT_OPT_OUT_SUFFIX,
+  spanishOptOutSuffix: DEFAULT_SPANISH_OPT_OUT_SUFFIX,
+  language: 'en',
+  followUpSteps: DEFAULT_FOLLOW_UP_STEPS,
+  exampleMessages: [
+    "Hi [Name], [Sender] here with [Company]. We have some dedicated lanes opening up—are you available? Reply YES or STOP to opt out",
+    "[Name], this is [Sender] from [Company]. Are you interested in drop and hook runs specifically? Reply YES or STOP to opt out",
+    "Hello [Name], [Company] has some mail loads starting soon—would you be open to hearing more? Reply YES or STOP to opt out",
+    "Hey [Name], came across your info—are you currently in the market for a CDL position? Reply YES or STOP to opt out",
+    "[Name], are you open to discussing local drop and hook options? Reply YES or STOP to opt out",
+  ],
+  updatedAt: new Date(0).toISOString(),
+});
+
+/**
+ * Creates a new profile, optionally copying an existing one.
+ */
+export const createProfile = (name: string, base?: CampaignProfile): CampaignProfile => ({
+  ...(base || createDefaultProfile()),
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * The subset of a profile recorded on each lead, used to spot outdated messages.
+ */
+export const toCampaignSettings = (profile: CampaignProfile): CampaignSettings => ({
+  profileId: profile.id,
+  senderName: profile.senderName,
+  companyName: profile.companyName,
+});
+
+/**
+ * Serializes profiles to a JSON document that can be shared between browsers.
+ */
+export const exportProfiles = (profiles: CampaignProfile[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+/**
+ * Checks one untrusted profile object (from an import file or an API
+ * request), filling in missing fields from the default profile. Returns
+ * null when it is not a profile at all.
+ */
+export const normalizeProfile = (item: unknown): CampaignProfile | null => {
+  if (!item || typeof item !== "object") return null;
+  const entry = item as Partial<CampaignProfile>;
+  if (typeof entry.name !== "string" || entry.name.trim().length === 0) return null;
+
+  const defaults = createDefaultProfile();
+  return {
+    id: typeof entry.id === "string" && entry.id ? entry.id : crypto.randomUUID(),
+    name: entry.name.trim(),
+    senderName: typeof entry.senderName === "string" ? entry.senderName : "",
+    companyName: typeof entry.companyName === "string" ? entry.companyName : "",
+    roleDescription: typeof entry.roleDescription === "string" ? entry.roleDescription : defaults.roleDescription,
+    jobOfferings: isStringArray(entry.jobOfferings) ? entry.jobOfferings : [],
+    tone: typeof entry.tone === "string" ? entry.tone : defaults.tone,
+    callToAction: typeof entry.callToAction === "string" ? entry.callToAction : defaults.callToAction,
+    optOutSuffix: typeof entry.optOutSuffix === "string" && entry.optOutSuffix.trim()
+      ? entry.optOutSuffix
+      : defaults.optOutSuffix,
+    spanishOptOutSuffix: typeof entry.spanishOptOutSuffix === "string" && entry.spanishOptOutSuffix.trim()
+      ? entry.spanishOptOutSuffix
+      : defaults.spanishOptOutSuffix,
+    // Profiles saved before the language setting wrote English only
+    language: typeof entry.language === "string" && entry.language in LANGUAGE_SETTING_LABELS ? entry.language : defaults.language,
+    followUpSteps: normalizeFollowUpSteps(entry.followUpSteps) ?? defaults.followUpSteps,
+    exampleMessages: isStringArray(entry.exampleMessages) ? entry.exampleMessages : [],
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Parses a profile export. Accepts either the export document or a bare
+ * array/object, fills in missing fields from the default profile and
+ * rejects entries that are not profiles at all.
+ */
+export const parseImportedProfiles = (text: string): CampaignProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const raw = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { profiles?: unknown }).profiles)
+      ? (data as { profiles: unknown[] }).profiles
+      : [data];
+
+  const profiles = raw.flatMap(item => {
+    const profile = normalizeProfile(item);
+    return profile ? [profile] : [];
+  });
+
+  if (profiles.length === 0) throw new Error("No campaign profiles were found in the selected file.");
+  return profiles;
+};
@@ -0,0 +1,132 @@
+import { ComplianceContext, ComplianceViolation, MessageLanguage, SmsEncodingInfo } from "../types";
+
+export const DEFAULT_OPT_OUT_SUFFIX = "Reply YES or STOP to opt out";
+// "SI" rather than "SÍ": Í isn't a GSM-7 character and would make every Spanish text UCS-2
+export const DEFAULT_SPANISH_OPT_OUT_SUFFIX = "Responda SI o STOP para darse de baja";
+
+// Longest message we allow before carriers start splitting it into 3+ parts
+const MAX_SEGMENTS = 2;
+
+// Characters that fit in MAX_SEGMENTS concatenated segments of each encoding
+export const MAX_MESSAGE_LENGTH = { gsm7: 153 * MAX_SEGMENTS, ucs2: 67 * MAX_SEGMENTS };
+
+// Words and phrases that commonly trip carrier spam filters
+const SPAM_TRIGGERS = [
+  "free", "guaranteed", "guarantee", "cash", "winner", "congratulations", "urgent",
+  "act now", "click here", "limited time", "risk-free", "risk free", "no cost",
+  "100%", "$$$", "earn money", "make money", "call now",
+];
+
+// GSM 03.38 basic character set and its extension table (extension chars cost 2 septets)
+const GSM7_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM7_EXTENDED = "^{}\\[~]|€\f";
+
+const PLACEHOLDER_PATTERN = /\[[^\]]*\]|\{\{?[^}]*\}?\}|<[^>]*>/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Works out how a message will be encoded and how many SMS segments it costs.
+ */
+export const getSmsEncodingInfo = (message: string): SmsEncodingInfo => {
+  const chars = Array.from(message);
+  const isGsm7 = chars.every(c => GSM7_BASIC.includes(c) || GSM7_EXTENDED.includes(c));
+
+  if (isGsm7) {
+    const length = chars.reduce((sum, c) => sum + (GSM7_EXTENDED.includes(c) ? 2 : 1), 0);
+    const segments = length <= 160 ? 1 : Math.ceil(length / 153);
+    return { encoding: 'GSM-7', length, segments, nonGsmCharacters: [] };
+  }
+
+  // UCS-2 counts UTF-16 code units, so emoji take two
+  const length = message.length;
+  const segments = length <= 70 ? 1 : Math.ceil(length / 67);
+  const nonGsmCharacters = Array.from(new Set(chars.filter(c => !GSM7_BASIC.includes(c) && !GSM7_EXTENDED.includes(c))));
+  return { encoding: 'UCS-2', length, segments, nonGsmCharacters };
+};
+
+/**
+ * The opt-out text a message in the given language must end with.
+ */
+export const getOptOutSuffix = (context: ComplianceContext, language: MessageLanguage = 'en'): string =>
+  language === 'es'
+    ? context.spanishOptOutSuffix || DEFAULT_SPANISH_OPT_OUT_SUFFIX
+    : context.optOutSuffix || DEFAULT_OPT_OUT_SUFFIX;
+
+/**
+ * Runs every compliance rule against an outreach message.
+ * An empty list means the message is safe to send.
+ */
+export const checkCompliance = (
+  message: string,
+  context: ComplianceContext = {},
+  language: MessageLanguage = 'en'
+): ComplianceViolation[] => {
+  const violations: ComplianceViolation[] = [];
+  const text = (message || "").trim();
+
+  if (text.length === 0) {
+    return [{ rule: 'empty', severity: 'error', message: "Message is empty." }];
+  }
+
+  // 1. Opt-out language must close the message
+  const suffix = getOptOutSuffix(context, language);
+  const suffixPattern = new RegExp(`${escapeRegExp(suffix)}[.!]?$`, 'i');
+  if (!suffixPattern.test(text)) {
+    violations.push({ rule: 'opt-out', severity: 'error', message: `Must end with "${suffix}".` });
+  }
+
+  // 2. Sender identity, when one was configured
+  const senderName = context.senderName?.trim();
+  if (senderName && !text.toLowerCase().includes(senderName.toLowerCase())) {
+    violations.push({ rule: 'sender-identity', severity: 'error', message: `Sender name "${senderName}" is missing.` });
+  }
+  const companyName = context.companyName?.trim();
+  if (companyName && !text.toLowerCase().includes(companyName.toLowerCase())) {
+    violations.push({ rule: 'sender-identity', severity: 'error', message: `Company name "${companyName}" is missing.` });
+  }
+
+  // 3. Encoding and length
+  const encoding = getSmsEncodingInfo(text);
+  if (encoding.encoding === 'UCS-2') {
+    violations.push({
+      rule: 'encoding',
+      severity: 'warning',
+      message: `Uses UCS-2 encoding (${encoding.nonGsmCharacters.join(' ')}), which cuts the segment size to 70 characters.`,
+    });
+  }
+  if (encoding.segments > MAX_SEGMENTS) {
+    violations.push({
+      rule: 'length',
+      severity: 'error',
+      message: `${encoding.segments} segments (${encoding.length} chars). Keep it to ${MAX_SEGMENTS} or fewer.`,
+    });
+  }
+
+  // 4. Spam-trigger words
+  const triggers = SPAM_TRIGGERS.filter(word => {
+    // Only anchor on word boundaries where the phrase starts/ends with a word character
+    const start = /^\w/.test(word) ? '\\b' : '';
+    const end = /\w$/.test(word) ? '\\b' : '';
+    return new RegExp(`${start}${escapeRegExp(word)}${end}`, 'i').test(text);
+  });
+  if (triggers.length > 0) {
+    violations.push({ rule: 'spam-words', severity: 'error', message: `Contains spam-trigger words: ${triggers.join(', ')}.` });
+  }
+
+  // 5. Template placeholders the model forgot to fill in
+  const placeholders = text.match(PLACEHOLDER_PATTERN);
+  if (placeholders) {
+    violations.push({ rule: 'placeholder', severity: 'error', message: `Unfilled placeholder: ${Array.from(new Set(placeholders)).join(', ')}.` });
+  }
+
+  return violations;
+};
+
+/**
+ * True when no rule produced an error (warnings are allowed).
+ */
+export const isCompliant = (violations: ComplianceViolation[]): boolean =>
+  violations.every(v => v.severity !== 'error');
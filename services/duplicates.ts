@@ -0,0 +1,111 @@
+import { DuplicateCandidate, Lead, LeadStatus } from "../types";
+import { AUTO_DUPLICATE_SCORE, REVIEW_DUPLICATE_SCORE, getMatchKeys, scoreMatch } from "./leadMatching";
+
+// Earlier leads scored per match key; a very common name only gets
+// compared with its most recent namesakes
+const MAX_CANDIDATES_PER_KEY = 100;
+
+/**
+ * Recomputes the duplicate status for the whole list. Each lead is scored
+ * against every earlier lead it could plausibly match (see leadMatching).
+ * Sure matches become duplicates pointing at the original record; weaker
+ * ones are kept as possibleDuplicate for the review screen. Manual
+ * overrides always win, and leads that have moved on in the pipeline
+ * (contacted, replied, ...) keep their status.
+ * @param leads Leads in display order (newest first)
+ */
+export const applyDuplicateFlags = (leads: Lead[]): Lead[] => {
+  // Oldest first; leads from the same upload keep their file order
+  const chronological = leads
+    .map((lead, index) => ({ lead, index }))
+    .sort((a, b) => a.lead.extractedAt.localeCompare(b.lead.extractedAt) || a.index - b.index);
+
+  const earlierByKey = new Map<string, Lead[]>();
+  // The original record each lead stands for (itself unless a duplicate)
+  const originalOf = new Map<string, string>();
+  const changes = new Map<string, Pick<Lead, 'status' | 'duplicateOf' | 'possibleDuplicate'>>();
+
+  chronological.forEach(({ lead }) => {
+    const keys = getMatchKeys(lead);
+
+    if (lead.status === 'new' || lead.status === 'duplicate') {
+      const candidates = new Set<Lead>();
+      keys.forEach(key => earlierByKey.get(key)?.slice(-MAX_CANDIDATES_PER_KEY).forEach(candidate => candidates.add(candidate)));
+
+      let match: DuplicateCandidate | null = null;
+      for (const candidate of candidates) {
+        const scored = scoreMatch(lead, candidate);
+        if (scored.score >= REVIEW_DUPLICATE_SCORE && (!match || scored.score > match.score)) {
+          // Point at the original, not at another duplicate of it
+          match = { leadId: originalOf.get(candidate.id) || candidate.id, ...scored };
+        }
+      }
+
+      const isDuplicate = lead.duplicateOverride ?? (match !== null && match.score >= AUTO_DUPLICATE_SCORE);
+      const uncertain = match !== null && match.score < AUTO_DUPLICATE_SCORE && lead.duplicateOverride === undefined;
+      changes.set(lead.id, {
+        status: isDuplicate ? 'duplicate' : 'new',
+        duplicateOf: isDuplicate ? match?.leadId : undefined,
+        possibleDuplicate: uncertain ? match ?? undefined : undefined,
+      });
+      originalOf.set(lead.id, (isDuplicate && match?.leadId) || lead.id);
+    } else {
+      originalOf.set(lead.id, lead.duplicateOf || lead.id);
+    }
+
+    keys.forEach(key => {
+      const earlier = earlierByKey.get(key);
+      if (earlier) earlier.push(lead);
+      else earlierByKey.set(key, [lead]);
+    });
+  });
+
+  return leads.map(lead => {
+    const change = changes.get(lead.id);
+    if (!change) return lead;
+    const unchanged =
+      change.status === lead.status &&
+      change.duplicateOf === lead.duplicateOf &&
+      change.possibleDuplicate?.leadId === lead.possibleDuplicate?.leadId &&
+      change.possibleDuplicate?.score === lead.possibleDuplicate?.score;
+    return unchanged ? lead : { ...lead, ...change };
+  });
+};
+
+// Later stages win when two records of the same person are merged
+const STATUS_RANK: LeadStatus[] = ['duplicate', 'new', 'contacted', 'replied', 'interested', 'wrong-number', 'opted-out'];
+
+/**
+ * Folds one lead into another and removes it. The kept lead's details win;
+ * it takes over the dropped lead's reply, send history and pipeline stage
+ * when those are further along.
+ */
+export const mergeLeads = (leads: Lead[], keepId: string, dropId: string): Lead[] => {
+  const keep = leads.find(l => l.id === keepId);
+  const drop = leads.find(l => l.id === dropId);
+  if (!keep || !drop) return leads;
+
+  const merged: Lead = {
+    ...keep,
+    // 'new' or 'duplicate' is worked out again once the dropped lead is gone
+    status: STATUS_RANK.indexOf(drop.status) > STATUS_RANK.indexOf(keep.status) ? drop.status : keep.status,
+    lastReply: !keep.lastReply || (drop.lastReply && drop.lastReply.receivedAt > keep.lastReply.receivedAt) ? drop.lastReply : keep.lastReply,
+    ...(!keep.sentAt && drop.sentAt && {
+      sendStatus: drop.sendStatus,
+      sendError: drop.sendError,
+      smsMessageId: drop.smsMessageId,
+      smsMessageStep: drop.smsMessageStep,
+      sentAt: drop.sentAt,
+      sequenceStartedAt: drop.sequenceStartedAt,
+      followUps: drop.followUps,
+    }),
+    duplicateOverride: undefined,
+    possibleDuplicate: undefined,
+  };
+
+  return applyDuplicateFlags(
+    leads
+      .filter(l => l.id !== dropId)
+      .map(l => (l.id === keepId ? merged : l.duplicateOf === dropId ? { ...l, duplicateOf: keepId } : l))
+  );
+};
@@ -0,0 +1,164 @@
+import { ExtraFieldDefinition, ExtraFieldType, ExtraFieldValue, ExtraFieldValues } from "../types";
+
+const EXTRA_FIELDS_KEY = "cold-leads.extraFields";
+
+// Keeps the extraction prompt and schema a reasonable size
+export const MAX_EXTRA_FIELDS = 12;
+
+export const EXTRA_FIELD_TYPE_LABELS: Record<ExtraFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  'yes-no': "Yes / No",
+  list: "List",
+};
+
+export const DEFAULT_EXTRA_FIELDS: ExtraFieldDefinition[] = [
+  { key: "location", label: "Location", type: 'text', description: "City and state the driver is based in, e.g. Dallas, TX" },
+  { key: "cdlClass", label: "CDL Class", type: 'text', description: "Commercial license class: A, B or C" },
+  { key: "endorsements", label: "Endorsements", type: 'list', description: "CDL endorsements, e.g. Hazmat, Tanker, Doubles/Triples, Passenger" },
+  { key: "yearsExperience", label: "Years of Experience", type: 'number', description: "Years of commercial driving experience" },
+];
+
+// Already used in the extraction output
+const RESERVED_KEYS = new Set(["fullName", "phoneNumber", "outreachMessage", "confidence", "sourceRow", "boundingBox", "extraFields"]);
+
+const KEY_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+/**
+ * Builds a property name from a label: "Years of Experience" -> "yearsOfExperience".
+ */
+export const toFieldKey = (label: string): string => {
+  const words = label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim().split(" ").filter(Boolean);
+  const key = words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("");
+  return /^[a-z]/.test(key) ? key : `field${key}`;
+};
+
+/**
+ * Checks untrusted field definitions (saved settings or an API request).
+ * Invalid, reserved and repeated keys are dropped.
+ */
+export const normalizeExtraFields = (value: unknown): ExtraFieldDefinition[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const fields: ExtraFieldDefinition[] = [];
+  value.forEach(item => {
+    if (typeof item?.key !== "string" || !KEY_PATTERN.test(item.key) || RESERVED_KEYS.has(item.key) || seen.has(item.key)) return;
+    if (!(item.type in EXTRA_FIELD_TYPE_LABELS)) return;
+    seen.add(item.key);
+    fields.push({
+      key: item.key,
+      label: typeof item.label === "string" && item.label.trim() ? item.label.trim() : item.key,
+      type: item.type,
+      description: typeof item.description === "string" ? item.description.trim() : "",
+    });
+  });
+  return fields.slice(0, MAX_EXTRA_FIELDS);
+};
+
+/**
+ * The fields saved in this browser, or the driver defaults on first use.
+ */
+export const loadExtraFields = (): ExtraFieldDefinition[] => {
+  try {
+    const stored = localStorage.getItem(EXTRA_FIELDS_KEY);
+    return stored === null ? DEFAULT_EXTRA_FIELDS : normalizeExtraFields(JSON.parse(stored));
+  } catch {
+    return DEFAULT_EXTRA_FIELDS;
+  }
+};
+
+export const saveExtraFields = (fields: ExtraFieldDefinition[]) => {
+  localStorage.setItem(EXTRA_FIELDS_KEY, JSON.stringify(fields));
+};
+
+const readValue = (value: unknown, type: ExtraFieldType): ExtraFieldValue | undefined => {
+  switch (type) {
+    case 'text':
+      return typeof value === "string" && value.trim() ? value.trim()
+        : typeof value === "number" ? String(value) : undefined;
+    case 'number': {
+      const number = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/[^\d.-]/g, ""));
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'yes-no':
+      if (typeof value === "boolean") return value;
+      if (typeof value !== "string") return undefined;
+      if (/^(y|yes|true|x|1)$/i.test(value.trim())) return true;
+      if (/^(n|no|false|0)$/i.test(value.trim())) return false;
+      return undefined;
+    case 'list': {
+      const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,;/|]/) : [];
+      const list = items.filter((item): item is string => typeof item === "string").map(item => item.trim()).filter(Boolean);
+      return list.length > 0 ? list : undefined;
+    }
+  }
+};
+
+/**
+ * Reads the defined fields out of model output or sheet cells, converting
+ * each to its type. Missing and unreadable values are left out.
+ */
+export const readExtraFieldValues = (value: unknown, fields: ExtraFieldDefinition[]): ExtraFieldValues | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const values: ExtraFieldValues = {};
+  fields.forEach(field => {
+    const read = readValue((value as Record<string, unknown>)[field.key], field.type);
+    if (read !== undefined) values[field.key] = read;
+  });
+  return Object.keys(values).length > 0 ? values : undefined;
+};
+
+/**
+ * Keeps well-formed values when no definitions are at hand (API requests).
+ */
+export const cleanExtraFieldValues = (value: unknown): ExtraFieldValues | undefined => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const values: ExtraFieldValues = {};
+  Object.entries(value).forEach(([key, item]) => {
+    if (!KEY_PATTERN.test(key)) return;
+    if (typeof item === "string" || typeof item === "boolean" || (typeof item === "number" && Number.isFinite(item))) {
+      values[key] = item;
+    } else if (Array.isArray(item) && item.every(entry => typeof entry === "string")) {
+      values[key] = item;
+    }
+  });
+  return Object.keys(values).length > 0 ? values : undefined;
+};
+
+export const formatExtraFieldValue = (value: ExtraFieldValue | undefined): string => {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+/**
+ * Finds sheet columns named after a field (by label or key, ignoring case
+ * and punctuation).
+ */
+export const matchExtraFieldColumns = (headers: string[], fields: ExtraFieldDefinition[]): Map<string, number> => {
+  const simplify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const columns = new Map<string, number>();
+  fields.forEach(field => {
+    const index = headers.findIndex(header => [simplify(field.label), simplify(field.key)].includes(simplify(header)));
+    if (index !== -1) columns.set(field.key, index);
+  });
+  return columns;
+};
+
+const TYPE_HINTS: Record<ExtraFieldType, string> = {
+  text: "string",
+  number: "number",
+  'yes-no': "true or false",
+  list: "array of strings",
+};
+
+/**
+ * Extraction prompt section listing the user's fields.
+ */
+export const getExtraFieldsInstruction = (fields: ExtraFieldDefinition[]): string =>
+  fields.length === 0 ? "" : `
+### EXTRA DETAILS (for every driver):
+Fill "extraFields" with these details when the source shows them for that driver. Leave a detail out when it isn't there. Never guess.
+${fields.map(f => `- "${f.key}" (${TYPE_HINTS[f.type]}): ${f.description || f.label}`).join("\n")}
+`;
@@ -0,0 +1,86 @@
+import { FollowUpStep, Lead } from "../types";
+
+// Recruiting sequences are two or three touches; more starts to read as spam
+export const MAX_FOLLOW_UP_STEPS = 3;
+
+export const DEFAULT_FOLLOW_UP_STEPS: FollowUpStep[] = [
+  {
+    delayDays: 3,
+    instructions: "A short, friendly check-in. Don't act like it's the first text. Pitch a different job type than the first text did.",
+  },
+  {
+    delayDays: 7,
+    instructions: "The last touch. Say this is the last text, keep it low-pressure and leave the door open.",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks untrusted steps (saved profiles, imports, API requests). Steps
+ * are kept in day order and each one comes at least a day after the last.
+ */
+export const normalizeFollowUpSteps = (value: unknown): FollowUpStep[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter(item => typeof item?.delayDays === "number" && Number.isFinite(item.delayDays) && typeof item.instructions === "string")
+    .map(item => ({ delayDays: Math.max(1, Math.round(item.delayDays)), instructions: item.instructions }))
+    .sort((a, b) => a.delayDays - b.delayDays)
+    .filter((step, i, steps) => i === 0 || step.delayDays > steps[i - 1].delayDays)
+    .slice(0, MAX_FOLLOW_UP_STEPS);
+};
+
+/**
+ * The follow-up step (1-based) a lead gets next, or null when there is
+ * none: the first text hasn't gone out, the lead replied or opted out,
+ * or every step was sent.
+ */
+export const getNextFollowUpStep = (lead: Lead, steps: FollowUpStep[]): number | null => {
+  if (!lead.sequenceStartedAt || lead.status !== 'contacted' || lead.isSuppressed) return null;
+  const lastSent = Math.max(0, ...(lead.followUps || []).filter(f => f.sentAt).map(f => f.step));
+  return lastSent < steps.length ? lastSent + 1 : null;
+};
+
+/**
+ * Local midnight of the day a follow-up step is due. Days are counted on
+ * the calendar, so a day 3 step is due three dates after the first text
+ * whatever time it went out.
+ */
+export const getFollowUpDueDate = (lead: Lead, steps: FollowUpStep[], step: number): Date => {
+  const start = new Date(lead.sequenceStartedAt!);
+  start.setHours(0, 0, 0, 0);
+  // Set the date rather than adding milliseconds, so DST changes don't shift it
+  start.setDate(start.getDate() + steps[step - 1].delayDays);
+  return start;
+};
+
+/**
+ * True when the lead's next follow-up is due today or overdue.
+ */
+export const isFollowUpDue = (lead: Lead, steps: FollowUpStep[], now: Date = new Date()): boolean => {
+  const step = getNextFollowUpStep(lead, steps);
+  return step !== null && getFollowUpDueDate(lead, steps, step).getTime() <= now.getTime();
+};
+
+/**
+ * The written message for a step, if any.
+ */
+export const getFollowUpMessage = (lead: Lead, step: number) =>
+  lead.followUps?.find(f => f.step === step);
+
+/**
+ * Everything the lead has been sent so far, first text first.
+ */
+export const getSentMessages = (lead: Lead): string[] => [
+  lead.outreachMessage,
+  ...(lead.followUps || []).filter(f => f.sentAt).sort((a, b) => a.step - b.step).map(f => f.message),
+];
+
+/**
+ * Whole days until a date, counted on the calendar (0 = today, negative = overdue).
+ */
+export const daysUntil = (date: Date, now: Date = new Date()): number => {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return Math.round((date.getTime() - today.getTime()) / DAY_MS);
+};
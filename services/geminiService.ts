@@ -1,11 +1,67 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ExtractedData } from "../types";
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Type, Schema } from "@google/genai";
+import { AiProvider, ExtraFieldDefinition, ExtraFieldType } from "../types";
+import { AiServiceError, toAiServiceError } from "./aiErrors";
+import {
+  getExtractionInstruction, getMessageInstruction,
+  getExtractionRequest, getDocumentExtractionRequest, getMessageRequest,
+} from "./aiPrompts";
+import { parseJsonArray, toLeadInputs, matchMessages } from "./aiOutput";
+
+// Finish reasons that mean the model refused to answer
+const BLOCKED_FINISH_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+const EXTRA_FIELD_SCHEMAS: Record<ExtraFieldType, Schema> = {
+  text: { type: Type.STRING },
+  number: { type: Type.NUMBER },
+  'yes-no': { type: Type.BOOLEAN },
+  list: { type: Type.ARRAY, items: { type: Type.STRING } },
+};
 
-// Initialize Gemini Client
-// Note: API Key must be in process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * The extraction schema, with an extraFields object holding the user's
+ * fields. None of them are required: most lists don't have every detail.
+ */
+const getExtractionSchema = (fields: ExtraFieldDefinition[]): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      fullName: { type: Type.STRING },
+      phoneNumber: { type: Type.STRING },
+      confidence: {
+        type: Type.OBJECT,
+        properties: {
+          fullName: { type: Type.NUMBER },
+          phoneNumber: { type: Type.NUMBER },
+        },
+        required: ["fullName", "phoneNumber"],
+      },
+      // Text sources: line number within the text that was sent
+      sourceRow: { type: Type.INTEGER },
+      // Images and PDFs: [ymin, xmin, ymax, xmax] scaled 0-1000
+      boundingBox: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+      ...(fields.length > 0 && {
+        extraFields: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(
+            fields.map(f => [f.key, { ...EXTRA_FIELD_SCHEMAS[f.type], description: f.description || f.label }])
+          ),
+        },
+      }),
+    },
+    required: ["fullName", "phoneNumber", "confidence"],
+  },
+});
 
-const RESPONSE_SCHEMA: Schema = {
+const MESSAGE_SCHEMA: Schema = {
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
@@ -18,147 +74,89 @@ const RESPONSE_SCHEMA: Schema = {
   },
 };
 
-const getSystemInstruction = (senderName: string, companyName: string) => {
-  const hasSender = senderName && senderName.trim().length > 0;
-  const hasCompany = companyName && companyName.trim().length > 0;
-
-  const senderContext = hasSender ? `Sender Name: "${senderName}"` : `Sender Name: NOT PROVIDED (Do NOT invent a name).`;
-  const companyContext = hasCompany ? `Company Name: "${companyName}"` : `Company Name: NOT PROVIDED (Do NOT invent a company name).`;
-
-  const introRule = hasSender && hasCompany 
-    ? `- "Hi [Name], ${senderName} from ${companyName} here"`
-    : hasSender 
-      ? `- "Hi [Name], it's ${senderName} reaching out"`
-      : hasCompany
-        ? `- "Hi [Name], reaching out from ${companyName}"`
-        : `- "Hi [Name], reaching out regarding a CDL opportunity" (Skip names entirely)`;
-
-  return `
-You are an expert AI Recruitment Assistant. 
-Your task is to extract driver leads from images or text and generate compliant SMS messages.
-
-### EXTRACTION RULES:
-1. Extract "Full Name" and "Phone Number" for drivers.
-2. STRICTLY FILTER: Only extract drivers with MOBILE/CELL numbers. 
-   - IGNORE Landlines, Work, Office, or Corporate numbers.
-   - IGNORE entries with no phone number.
-3. PRIVACY: DO NOT extract SSNs, DOBs, or Addresses.
-4. Normalization: Format all phone numbers as (XXX) XXX-XXXX.
-
-### CONTEXT - INPUTS:
-${senderContext}
-${companyContext}
-Job Types available (Mention these variously):
-- **Drop and Hook**
-- **Dedicated Lanes**
-- **Mail Loads**
-
-### SMS GENERATION RULES (CRITICAL - STRICT VARIETY REQUIRED):
-For EACH extracted driver, generate a **COMPLETELY UNIQUE** 'outreachMessage'.
-**The user will be flagged for spam if messages look like templates. You MUST vary the phrasing.**
-
-1. **NO REPETITION**: Do not use the same opening sentence structure twice in a row.
-2. **Handle Identity (Strictly based on Inputs)**:
-   ${introRule}
-   - IF Sender Name is empty: DO NOT use "I'm [Name]" or "This is [Name]".
-   - IF Company Name is empty: DO NOT use "from [Company]" or "with [Company]".
-3. **Vary the "Hook" (Integrate Job Details)**:
-   - "We have new **drop and hook** runs available..."
-   - "Are you interested in **dedicated lanes**?"
-   - "Looking for drivers for **mail loads**..."
-   - "Are you open to CDL opportunities?"
-   - "Would you be open to hearing about a new lane?"
-   - *NOTE: Do not list all perks in one message. Pick ONE or NONE per message to keep it natural.*
-4. **Vary the Syntax**: Change the order of the introduction and the question.
-
-**Compliance Rules (Must apply to ALL):**
-1. Must END with "Reply YES or STOP to opt out".
-
-### EXAMPLE VARIATIONS (Examples assume Name="Paul", Company="TLG". ADAPT if inputs are empty):
-- "Hi [Name], ${hasSender ? senderName : 'recruiter'} here${hasCompany ? ' with ' + companyName : ''}. We have some dedicated lanes opening up—are you available? Reply YES or STOP to opt out"
-- "[Name], ${hasSender ? 'this is ' + senderName : 'checking in'}${hasCompany ? ' from ' + companyName : ''}. Are you interested in drop and hook runs specifically? Reply YES or STOP to opt out"
-- "Hello [Name], ${hasCompany ? companyName : 'we'} have some mail loads starting soon—would you be open to hearing more? Reply YES or STOP to opt out"
-- "Hey [Name], came across your info—are you currently in the market for a CDL position? Reply YES or STOP to opt out"
-- "[Name], are you open to discussing local drop and hook options? Reply YES or STOP to opt out"
-`;
-};
-
 /**
- * Helper to clean Markdown wrappers from JSON string.
+ * Reads the JSON array out of a response, raising a typed error when the
+ * model refused, was cut off, or returned something that isn't an array.
  */
-const cleanJsonOutput = (text: string) => {
-  if (!text) return "[]";
-  // Remove markdown code blocks (```json ... ```)
-  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+const parseResponseArray = (response: GenerateContentResponse): unknown[] => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new AiServiceError('blocked');
+  }
+  // A reply cut off at the token limit is never valid JSON
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    throw new AiServiceError('malformed-output');
+  }
+  return parseJsonArray(response.text || "");
 };
 
+const classifyError = (error: unknown) =>
+  toAiServiceError(error, error instanceof ApiError ? error.status : undefined);
+
 /**
- * Processes a file (Image or Text) to extract leads using Gemini.
- * @param fileContent Base64 string (for images) or raw text string
- * @param mimeType Mime type of the file
- * @param senderName Optional sender name
- * @param companyName Optional company name
+ * Gemini implementation. Images and PDFs are sent as inline data; the JSON
+ * shape is enforced with a response schema. Runs on the app server only,
+ * so the key never reaches the browser (see server/api.ts).
  */
-export const extractLeadsFromFile = async (
-  fileContent: string,
-  mimeType: string,
-  senderName: string = "",
-  companyName: string = ""
-): Promise<ExtractedData[]> => {
-  try {
-    const isImage = mimeType.startsWith("image/");
-    
-    let contents;
-
-    if (isImage) {
-      // For images, we send the base64 data
-      contents = {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: fileContent,
-            },
-          },
-          {
-            text: "Extract the driver list from this image. Return valid JSON.",
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+  let client: GoogleGenAI | null = null;
+
+  // Created on first use so a missing key is reported as an auth error
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) throw new AiServiceError('auth');
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    extractLeads: async (fileContent, mimeType, settings, fields) => {
+      try {
+        const isDocument = mimeType.startsWith("image/") || mimeType === "application/pdf";
+        const contents = isDocument
+          ? {
+              parts: [
+                { inlineData: { mimeType, data: fileContent } },
+                { text: getDocumentExtractionRequest(mimeType) },
+              ],
+            }
+          : { parts: [{ text: getExtractionRequest(fileContent) }] };
+
+        const response = await getClient().models.generateContent({
+          model: settings.model,
+          config: {
+            systemInstruction: getExtractionInstruction(fields),
+            responseMimeType: "application/json",
+            responseSchema: getExtractionSchema(fields),
+            temperature: settings.extractionTemperature,
           },
-        ],
-      };
-    } else {
-      // For text/csv files
-      contents = {
-        parts: [
-          {
-            text: `Extract the driver list from the following text data:\n\n${fileContent}`,
-          },
-        ],
-      };
-    }
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: getSystemInstruction(senderName, companyName),
-        responseMimeType: "application/json",
-        responseSchema: RESPONSE_SCHEMA,
-        temperature: 1.2, // Balanced for variety (SMS) and structural stability (JSON)
-      },
-      contents: contents,
-    });
-
-    let textOutput = response.text;
-    if (!textOutput) return [];
-
-    // Sanitize the output before parsing
-    textOutput = cleanJsonOutput(textOutput);
-
-    const parsedData = JSON.parse(textOutput) as ExtractedData[];
-    return parsedData;
+          contents,
+        });
+
+        return toLeadInputs(parseResponseArray(response), fields);
+      } catch (error) {
+        console.error("Gemini Extraction Error:", error);
+        throw classifyError(error);
+      }
+    },
 
-  } catch (error) {
-    console.error("Gemini Extraction Error:", error);
-    // Throwing here allows App.tsx to catch it and display the red error box
-    throw new Error("Failed to extract data. The file might be unclear or the AI could not find valid leads.");
-  }
-};
\ No newline at end of file
+    writeMessages: async (leads, profile, avoidMessages, settings, followUp) => {
+      try {
+        const response = await getClient().models.generateContent({
+          model: settings.model,
+          config: {
+            systemInstruction: getMessageInstruction(profile, followUp),
+            responseMimeType: "application/json",
+            responseSchema: MESSAGE_SCHEMA,
+            temperature: settings.messageTemperature,
+          },
+          contents: { parts: [{ text: getMessageRequest(leads, avoidMessages) }] },
+        });
+
+        return matchMessages(leads, parseResponseArray(response));
+      } catch (error) {
+        console.error("Gemini Message Generation Error:", error);
+        throw classifyError(error);
+      }
+    },
+  };
+};
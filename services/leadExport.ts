@@ -0,0 +1,321 @@
+import * as XLSX from 'xlsx';
+import { ExportColumn, ExportField, ExportFormat, ExportOptions, ExportPreset, ExtraFieldDefinition, Lead, StandardExportField } from "../types";
+import { formatExtraFieldValue } from "./extraFields";
+import { LEAD_STATUS_LABELS, getLeadStatus } from "./leadFilters";
+import { formatNationalPhone } from "./phoneNumber";
+import { needsReview } from "./sourceReview";
+
+const PRESETS_KEY = "cold-leads.exportPresets";
+const OPTIONS_KEY = "cold-leads.exportOptions";
+
+export const EXPORT_FIELD_LABELS: Record<StandardExportField, string> = {
+  fullName: "Full name",
+  firstName: "First name",
+  lastName: "Last name",
+  phoneE164: "Phone (+1XXXXXXXXXX)",
+  phoneNational: "Phone (10 digits)",
+  phoneDisplay: "Phone ((XXX) XXX-XXXX)",
+  phoneWarning: "Phone warning",
+  message: "SMS message",
+  complianceIssues: "Compliance issues",
+  sourceFile: "Source file",
+  sourcePage: "Source page",
+  status: "Status",
+  optedOut: "Opted out (Yes/No)",
+  sendStatus: "Send status",
+  lastReply: "Last reply",
+  extractedDate: "Extracted date (YYYY-MM-DD)",
+  extractedAt: "Extracted time (ISO 8601)",
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+  json: "JSON",
+  vcard: "vCard (.vcf)",
+};
+
+export const BUILT_IN_PRESETS: ExportPreset[] = [
+  {
+    id: "standard",
+    name: "Standard (all columns)",
+    builtIn: true,
+    columns: [
+      { field: 'fullName', header: "Full Name" },
+      { field: 'phoneE164', header: "Phone Number" },
+      { field: 'phoneWarning', header: "Phone Warning" },
+      { field: 'message', header: "SMS Message" },
+      { field: 'complianceIssues', header: "Compliance Issues" },
+      { field: 'sourceFile', header: "Source File" },
+      { field: 'sourcePage', header: "Source Page" },
+      { field: 'status', header: "Status" },
+      { field: 'optedOut', header: "Opted Out" },
+      { field: 'sendStatus', header: "Send Status" },
+      { field: 'lastReply', header: "Last Reply" },
+      { field: 'extractedDate', header: "Extracted Date" },
+    ],
+  },
+  {
+    id: "bulk-sms",
+    name: "Bulk SMS: First, Last, Phone, Message",
+    builtIn: true,
+    columns: [
+      { field: 'firstName', header: "First Name" },
+      { field: 'lastName', header: "Last Name" },
+      { field: 'phoneE164', header: "Phone Number" },
+      { field: 'message', header: "Message" },
+    ],
+  },
+  {
+    id: "bulk-sms-snake",
+    name: "Bulk SMS: first_name, last_name, phone, message",
+    builtIn: true,
+    columns: [
+      { field: 'firstName', header: "first_name" },
+      { field: 'lastName', header: "last_name" },
+      { field: 'phoneE164', header: "phone" },
+      { field: 'message', header: "message" },
+    ],
+  },
+  {
+    id: "crm-contacts",
+    name: "CRM contacts",
+    builtIn: true,
+    columns: [
+      { field: 'firstName', header: "First Name" },
+      { field: 'lastName', header: "Last Name" },
+      { field: 'phoneDisplay', header: "Mobile Phone" },
+      { field: 'sourceFile', header: "Lead Source" },
+      { field: 'status', header: "Lead Status" },
+      { field: 'message', header: "Description" },
+    ],
+  },
+];
+
+const EXTRA_FIELD_PREFIX = "extra:";
+
+export const toExtraExportField = (key: string): ExportField => `${EXTRA_FIELD_PREFIX}${key}`;
+
+const getExtraFieldKey = (field: ExportField): string | null =>
+  field.startsWith(EXTRA_FIELD_PREFIX) ? field.slice(EXTRA_FIELD_PREFIX.length) : null;
+
+/**
+ * Label for any export field, including the user's extra fields (a field
+ * that was since removed shows its key).
+ */
+export const getExportFieldLabel = (field: ExportField, extraFields: ExtraFieldDefinition[]): string => {
+  const key = getExtraFieldKey(field);
+  if (key === null) return EXPORT_FIELD_LABELS[field as StandardExportField];
+  return extraFields.find(f => f.key === key)?.label || key;
+};
+
+/**
+ * Columns for a preset. The standard preset also gets every extra field.
+ */
+export const getPresetColumns = (preset: ExportPreset, extraFields: ExtraFieldDefinition[]): ExportColumn[] =>
+  preset.id === "standard"
+    ? [...preset.columns, ...extraFields.map(f => ({ field: toExtraExportField(f.key), header: f.label }))]
+    : preset.columns;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'xlsx',
+  presetId: "standard",
+  scope: 'filtered',
+  excludeDuplicates: false,
+  // Opted-out numbers are never exported unless explicitly requested
+  includeOptedOut: false,
+  duplicatesSeparately: false,
+};
+
+/**
+ * Presets the user saved in this browser.
+ */
+export const loadExportPresets = (): ExportPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || "[]");
+    return Array.isArray(stored)
+      ? stored.filter((p): p is ExportPreset => typeof p?.id === "string" && Array.isArray(p?.columns))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveExportPresets = (presets: ExportPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+/**
+ * Splits a full name for importers with separate name columns. Handles
+ * "Last, First"; otherwise the first word is the first name and the rest
+ * is the last name.
+ */
+export const splitName = (fullName: string): { firstName: string; lastName: string } => {
+  if (fullName.includes(",")) {
+    const [last, first] = fullName.split(",");
+    return { firstName: first.trim(), lastName: last.trim() };
+  }
+  const [firstName = "", ...rest] = fullName.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(" ") };
+};
+
+const getFieldValue = (lead: Lead, field: ExportField): string | number => {
+  const extraKey = getExtraFieldKey(field);
+  if (extraKey !== null) {
+    const value = lead.extraFields?.[extraKey];
+    return typeof value === "number" ? value : formatExtraFieldValue(value);
+  }
+  switch (field as StandardExportField) {
+    case 'fullName': return lead.fullName;
+    case 'firstName': return splitName(lead.fullName).firstName;
+    case 'lastName': return splitName(lead.fullName).lastName;
+    case 'phoneE164': return lead.phoneE164;
+    case 'phoneNational': return lead.phoneE164.replace(/^\+1/, "");
+    case 'phoneDisplay': return formatNationalPhone(lead.phoneE164.replace(/^\+1/, ""));
+    case 'phoneWarning': return lead.phoneWarning || "";
+    case 'message': return lead.outreachMessage;
+    case 'complianceIssues': return lead.complianceIssues.map(v => v.message).join(" ");
+    case 'sourceFile': return lead.sourceFile;
+    case 'sourcePage': return lead.sourcePage ?? "";
+    case 'status': return LEAD_STATUS_LABELS[getLeadStatus(lead)];
+    case 'optedOut': return lead.isSuppressed ? "Yes" : "No";
+    case 'sendStatus': return lead.sendStatus || "";
+    case 'lastReply': return lead.lastReply?.body || "";
+    case 'extractedDate': return lead.extractedAt.slice(0, 10);
+    case 'extractedAt': return lead.extractedAt;
+  }
+  return "";
+};
+
+/**
+ * Applies the duplicate and opt-out options. Duplicates come back apart
+ * when they go to their own sheet or file. Low-confidence leads nobody has
+ * reviewed yet are never exported; they come back as unreviewed.
+ */
+export const selectExportLeads = (
+  leads: Lead[],
+  options: ExportOptions
+): { main: Lead[]; duplicates: Lead[]; unreviewed: Lead[] } => {
+  const unreviewed = leads.filter(needsReview);
+  const included = (options.includeOptedOut ? leads : leads.filter(l => !l.isSuppressed)).filter(l => !needsReview(l));
+  if (options.excludeDuplicates) {
+    return { main: included.filter(l => l.status !== 'duplicate'), duplicates: [], unreviewed };
+  }
+  if (options.duplicatesSeparately) {
+    return {
+      main: included.filter(l => l.status !== 'duplicate'),
+      duplicates: included.filter(l => l.status === 'duplicate'),
+      unreviewed,
+    };
+  }
+  return { main: included, duplicates: [], unreviewed };
+};
+
+const toGrid = (leads: Lead[], columns: ExportColumn[]): (string | number)[][] => [
+  columns.map(c => c.header),
+  ...leads.map(lead => columns.map(c => getFieldValue(lead, c.field))),
+];
+
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+
+// vCard lines longer than 75 characters are folded onto continuation lines
+const foldLine = (line: string): string =>
+  line.length <= 75 ? line : [line.slice(0, 75), ...(line.slice(75).match(/.{1,74}/g) || [])].join("\r\n ");
+
+/**
+ * One vCard 3.0 contact per lead, with the SMS message as the note.
+ */
+const toVCards = (leads: Lead[]): string =>
+  leads.map(lead => {
+    const { firstName, lastName } = splitName(lead.fullName);
+    return [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      `N:${escapeVCard(lastName)};${escapeVCard(firstName)};;;`,
+      `FN:${escapeVCard(`${firstName} ${lastName}`.trim() || lead.fullName)}`,
+      `TEL;TYPE=CELL:${lead.phoneE164}`,
+      `NOTE:${escapeVCard(lead.outreachMessage)}`,
+      "END:VCARD",
+    ].map(foldLine).join("\r\n");
+  }).join("\r\n") + "\r\n";
+
+const toJson = (leads: Lead[], columns: ExportColumn[]) =>
+  leads.map(lead => Object.fromEntries(columns.map(c => [c.header, getFieldValue(lead, c.field)])));
+
+export interface ExportFile {
+  name: string;
+  blob: Blob;
+}
+
+/**
+ * Builds the files for one export. vCard ignores the columns; every other
+ * format writes the columns in order with their headers.
+ */
+export const buildExportFiles = (
+  main: Lead[],
+  duplicates: Lead[],
+  columns: ExportColumn[],
+  format: ExportFormat,
+  baseName: string,
+  extraFields: ExtraFieldDefinition[] = []
+): ExportFile[] => {
+  // A column left without a header is named after its field
+  columns = columns.map(c => ({ ...c, header: c.header.trim() || getExportFieldLabel(c.field, extraFields) }));
+  const groups = [{ leads: main, suffix: "" }, ...(duplicates.length > 0 ? [{ leads: duplicates, suffix: "_Duplicates" }] : [])];
+
+  switch (format) {
+    case 'xlsx': {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(toGrid(main, columns)), "Cold Leads");
+      if (duplicates.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(toGrid(duplicates, columns)), "Duplicates");
+      }
+      const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+      return [{
+        name: `${baseName}.xlsx`,
+        blob: new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+      }];
+    }
+    case 'csv':
+      return groups.map(({ leads, suffix }) => ({
+        name: `${baseName}${suffix}.csv`,
+        blob: new Blob([XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(toGrid(leads, columns)))], { type: "text/csv" }),
+      }));
+    case 'json': {
+      const body = duplicates.length > 0
+        ? { leads: toJson(main, columns), duplicates: toJson(duplicates, columns) }
+        : toJson(main, columns);
+      return [{ name: `${baseName}.json`, blob: new Blob([JSON.stringify(body, null, 2)], { type: "application/json" }) }];
+    }
+    case 'vcard':
+      return groups.map(({ leads, suffix }) => ({
+        name: `${baseName}${suffix}.vcf`,
+        blob: new Blob([toVCards(leads)], { type: "text/vcard" }),
+      }));
+  }
+};
+
+/**
+ * Saves a file through the browser's download prompt.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,62 @@
+import { Lead, LeadFilter, LeadSort, LeadStatus } from "../types";
+import { formatExtraFieldValue } from "./extraFields";
+
+export const EMPTY_FILTER: LeadFilter = { search: "", status: 'all', sourceFile: 'all' };
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  'new': "New Lead",
+  'duplicate': "Duplicate",
+  'contacted': "Contacted",
+  'replied': "Replied",
+  'interested': "Interested",
+  'wrong-number': "Wrong Number",
+  'opted-out': "Opted Out",
+};
+
+/**
+ * The status shown for a lead. A number on the Do-Not-Contact list always
+ * shows as opted out, whatever stage the lead reached.
+ */
+export const getLeadStatus = (lead: Lead): LeadStatus =>
+  lead.isSuppressed ? 'opted-out' : lead.status;
+
+export const isFilterActive = (filter: LeadFilter): boolean =>
+  filter.search.trim().length > 0 || filter.status !== 'all' || filter.sourceFile !== 'all';
+
+/**
+ * Applies the status, source file and free-text filters.
+ * Search matches name, phone (any format), message text and extra details
+ * (so "hazmat" finds drivers with that endorsement).
+ */
+export const filterLeads = (leads: Lead[], filter: LeadFilter): Lead[] => {
+  const query = filter.search.trim().toLowerCase();
+  const queryDigits = query.replace(/\D/g, "");
+
+  return leads.filter(lead => {
+    if (filter.status !== 'all' && getLeadStatus(lead) !== filter.status) return false;
+    if (filter.sourceFile !== 'all' && lead.sourceFile !== filter.sourceFile) return false;
+    if (!query) return true;
+
+    return (
+      lead.fullName.toLowerCase().includes(query) ||
+      lead.outreachMessage.toLowerCase().includes(query) ||
+      lead.phoneNumber.toLowerCase().includes(query) ||
+      Object.values(lead.extraFields || {}).some(value => formatExtraFieldValue(value).toLowerCase().includes(query)) ||
+      (queryDigits.length >= 3 && lead.phoneE164.includes(queryDigits))
+    );
+  });
+};
+
+/**
+ * Sorts a copy of the list. A null sort keeps the original (newest first) order.
+ */
+export const sortLeads = (leads: Lead[], sort: LeadSort | null): Lead[] => {
+  if (!sort) return leads;
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const valueOf = (lead: Lead): string => (sort.key === 'phoneNumber' ? lead.phoneE164 : lead[sort.key]);
+
+  return [...leads].sort((a, b) =>
+    direction * valueOf(a).localeCompare(valueOf(b), undefined, { sensitivity: 'base' })
+  );
+};
@@ -0,0 +1,194 @@
+import { Lead } from "../types";
+
+// At or above this a lead is flagged as a duplicate without asking
+export const AUTO_DUPLICATE_SCORE = 0.9;
+// Between this and the auto score the match goes to the review screen
+export const REVIEW_DUPLICATE_SCORE = 0.6;
+
+// Nicknames and short forms, grouped under the formal name
+const NICKNAME_GROUPS: string[][] = [
+  ["john", "jon", "johnny", "jonathan", "jack"],
+  ["william", "will", "bill", "billy", "willie", "liam"],
+  ["robert", "rob", "bob", "bobby", "robbie", "bert"],
+  ["richard", "rich", "rick", "ricky", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["michael", "mike", "mikey", "mick"],
+  ["christopher", "chris", "topher"],
+  ["joseph", "joe", "joey"],
+  ["thomas", "tom", "tommy"],
+  ["charles", "charlie", "chuck", "chas"],
+  ["daniel", "dan", "danny"],
+  ["anthony", "tony"],
+  ["steven", "stephen", "steve", "stevie"],
+  ["edward", "ed", "eddie", "ted", "teddy"],
+  ["david", "dave", "davey"],
+  ["matthew", "matt"],
+  ["andrew", "andy", "drew"],
+  ["benjamin", "ben", "benny"],
+  ["samuel", "sam", "sammy"],
+  ["alexander", "alex", "al"],
+  ["nicholas", "nick", "nicky"],
+  ["timothy", "tim", "timmy"],
+  ["kenneth", "ken", "kenny"],
+  ["donald", "don", "donny"],
+  ["ronald", "ron", "ronnie"],
+  ["gregory", "greg"],
+  ["jeffrey", "jeff", "geoffrey"],
+  ["patrick", "pat", "paddy"],
+  ["lawrence", "larry"],
+  ["gerald", "jerry"],
+  ["douglas", "doug"],
+  ["raymond", "ray"],
+  ["jose", "pepe"],
+  ["francisco", "frank", "paco", "pancho"],
+  ["katherine", "catherine", "kathy", "kate", "katie", "cathy"],
+  ["elizabeth", "liz", "beth", "betty", "lizzie"],
+  ["jennifer", "jen", "jenny"],
+  ["margaret", "maggie", "peggy", "meg"],
+  ["patricia", "patty", "trish"],
+  ["susan", "sue", "suzy"],
+  ["deborah", "debbie", "deb"],
+  ["rebecca", "becky", "becca"],
+];
+
+const CANONICAL_NAMES = new Map<string, string>();
+NICKNAME_GROUPS.forEach(group => group.forEach(name => CANONICAL_NAMES.set(name, group[0])));
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+
+interface NameParts {
+  first: string;
+  last: string;
+}
+
+/**
+ * Lowercase first and last name, with "Last, First", middle names and
+ * suffixes like Jr. handled.
+ */
+export const parseName = (fullName: string): NameParts => {
+  const ordered = fullName.includes(",")
+    ? `${fullName.split(",").slice(1).join(" ")} ${fullName.split(",")[0]}`
+    : fullName;
+  const tokens = ordered
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s'-]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !NAME_SUFFIXES.has(token));
+  return { first: tokens[0] || "", last: tokens.length > 1 ? tokens[tokens.length - 1] : "" };
+};
+
+const canonical = (name: string) => CANONICAL_NAMES.get(name) || name;
+
+// Each lead is compared many times while the list is scanned
+const parsedNames = new WeakMap<Lead, NameParts>();
+const getNameParts = (lead: Lead): NameParts => {
+  let parts = parsedNames.get(lead);
+  if (!parts) {
+    parts = parseName(lead.fullName);
+    parsedNames.set(lead, parts);
+  }
+  return parts;
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How sure we are that two name parts are the same name (0-1), and why.
+ */
+const compareNamePart = (a: string, b: string): { score: number; reason?: string } => {
+  if (!a || !b) return { score: 0 };
+  if (a === b) return { score: 1 };
+  if (canonical(a) === canonical(b)) return { score: 0.9, reason: `nickname (${a} / ${b})` };
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) {
+    return { score: 0.7, reason: `initial (${a} / ${b})` };
+  }
+  if (Math.min(a.length, b.length) >= 4 && Math.abs(a.length - b.length) <= 1 && editDistance(a, b) === 1) {
+    return { score: 0.85, reason: `spelling (${a} / ${b})` };
+  }
+  return { score: 0 };
+};
+
+/**
+ * Name similarity (0-1). Also tried with first and last swapped, for
+ * lists that mix up the order.
+ */
+// Both parts must match; the second is only compared when the first did
+const comparePair = (x1: string, y1: string, x2: string, y2: string) => {
+  const first = compareNamePart(x1, y1);
+  if (first.score === 0) return null;
+  const second = compareNamePart(x2, y2);
+  return second.score === 0 ? null : { score: Math.min(first.score, second.score), reasons: [first.reason, second.reason] };
+};
+
+const compareNames = (a: NameParts, b: NameParts): { score: number; reasons: string[] } => {
+  const inOrder = comparePair(a.first, b.first, a.last, b.last);
+  const swapped = comparePair(a.first, b.last, a.last, b.first);
+
+  const best = swapped && (!inOrder || swapped.score > inOrder.score) ? swapped : inOrder;
+  if (!best) return { score: 0, reasons: [] };
+  const reasons = best.reasons.filter((r): r is string => Boolean(r));
+  if (best === swapped) reasons.unshift("first and last name swapped");
+  return { score: best.score, reasons };
+};
+
+export interface MatchScore {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Scores how likely two leads are the same person. The same number is
+ * almost certain on its own; a matching name with a different number needs
+ * review. Coming from the same file adds a little weight.
+ */
+export const scoreMatch = (a: Lead, b: Lead): MatchScore => {
+  const names = compareNames(getNameParts(a), getNameParts(b));
+  const sameSource = a.sourceFile === b.sourceFile;
+
+  if (a.phoneE164 === b.phoneE164) {
+    return {
+      score: 0.9 + 0.1 * names.score,
+      reasons: ["same phone number", ...(names.score === 0 ? ["different name"] : names.reasons)],
+    };
+  }
+  if (names.score === 0) return { score: 0, reasons: [] };
+
+  return {
+    score: Math.min(0.89, 0.75 * names.score + (sameSource ? 0.1 : 0)),
+    reasons: [
+      names.reasons.length > 0 ? "similar name" : "same name",
+      ...names.reasons,
+      "different phone number",
+      ...(sameSource ? ["same source file"] : []),
+    ],
+  };
+};
+
+/**
+ * Keys that any plausible match shares: the phone number, and each name
+ * part paired with the initial of the other (in either order). Only leads
+ * sharing a key are scored, so large histories stay fast.
+ */
+export const getMatchKeys = (lead: Lead): string[] => {
+  const { first, last } = getNameParts(lead);
+  const keys = [`phone:${lead.phoneE164}`];
+  if (first && last) {
+    keys.push(`name:${last}|${canonical(first)[0]}`, `name:${first}|${canonical(last)[0]}`);
+    keys.push(`name:${canonical(first)}|${last[0]}`, `name:${canonical(last)}|${first[0]}`);
+  } else if (first) {
+    keys.push(`name:${canonical(first)}|`);
+  }
+  return keys;
+};
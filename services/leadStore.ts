@@ -0,0 +1,245 @@
+import { AuditLogEntry, CampaignProfile, Lead, SuppressedNumber } from "../types";
+import { phoneKey } from "./phoneNumber";
+import { DEFAULT_SPANISH_OPT_OUT_SUFFIX, checkCompliance } from "./complianceRules";
+import { DEFAULT_FOLLOW_UP_STEPS } from "./followUps";
+
+// Local persistent lead history (IndexedDB).
+// Every lead ever extracted lives here so duplicate checks span sessions.
+const DB_NAME = "cold-leads";
+const DB_VERSION = 5;
+const LEADS_STORE = "leads";
+const SUPPRESSION_STORE = "suppression";
+const PROFILES_STORE = "profiles";
+const AUDIT_STORE = "auditLog";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades if needed) the IndexedDB database.
+ * The connection is cached for the lifetime of the page.
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(LEADS_STORE)
+        ? request.transaction!.objectStore(LEADS_STORE)
+        : db.createObjectStore(LEADS_STORE, { keyPath: "id" });
+
+      // v2: dedup moved from the raw phone string to the E.164 form
+      if (store.indexNames.contains("phoneNumber")) store.deleteIndex("phoneNumber");
+      if (!store.indexNames.contains("phoneE164")) {
+        store.createIndex("phoneE164", "phoneE164", { unique: false });
+      }
+
+      // v3: Do-Not-Contact list, keyed by E.164 number
+      if (!db.objectStoreNames.contains(SUPPRESSION_STORE)) {
+        db.createObjectStore(SUPPRESSION_STORE, { keyPath: "phoneE164" });
+      }
+
+      // v4: saved campaign profiles
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        db.createObjectStore(PROFILES_STORE, { keyPath: "id" });
+      }
+
+      // v5: extraction audit log
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        db.createObjectStore(AUDIT_STORE, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open lead history database."));
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps a transaction so callers can await its completion.
+ */
+const runTransaction = async (
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error || new Error("Lead history transaction failed."));
+    tx.onabort = () => reject(tx.error || new Error("Lead history transaction aborted."));
+  });
+};
+
+/**
+ * Reads every record from an object store.
+ */
+const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, "readonly").objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error || new Error(`Failed to read ${storeName}.`));
+  });
+};
+
+/**
+ * Fills in fields that did not exist when older records were saved.
+ */
+const migrateLead = ({ isDuplicate, ...lead }: Lead & { isDuplicate?: boolean }): Lead => ({
+  ...lead,
+  phoneE164: lead.phoneE164 || phoneKey(lead.phoneNumber),
+  // Before the status pipeline, leads were only flagged as duplicates
+  status: lead.status ?? (lead.sentAt ? 'contacted' : isDuplicate ? 'duplicate' : 'new'),
+  isSuppressed: lead.isSuppressed ?? false,
+  // The campaign settings used at the time are unknown, so only generic rules apply
+  complianceIssues: lead.complianceIssues ?? checkCompliance(lead.outreachMessage, {}, lead.language),
+  // Every message was written in English before the language setting
+  language: lead.language ?? 'en',
+  // Texts sent before follow-up sequences start theirs on the day they went out
+  sequenceStartedAt: lead.sequenceStartedAt ?? lead.sentAt,
+});
+
+/**
+ * Fills in profile settings added after the profile was saved.
+ */
+// The first Spanish default; its "Í" made every Spanish text UCS-2
+const OLD_SPANISH_OPT_OUT_SUFFIX = "Responda SÍ o STOP para darse de baja";
+
+// The first default examples named a made-up sender and company
+const OLD_DEFAULT_EXAMPLES: Record<string, string> = {
+  "Hi [Name], Paul here with TLG. We have some dedicated lanes opening up—are you available? Reply YES or STOP to opt out":
+    "Hi [Name], [Sender] here with [Company]. We have some dedicated lanes opening up—are you available? Reply YES or STOP to opt out",
+  "[Name], this is Paul from TLG. Are you interested in drop and hook runs specifically? Reply YES or STOP to opt out":
+    "[Name], this is [Sender] from [Company]. Are you interested in drop and hook runs specifically? Reply YES or STOP to opt out",
+  "Hello [Name], TLG has some mail loads starting soon—would you be open to hearing more? Reply YES or STOP to opt out":
+    "Hello [Name], [Company] has some mail loads starting soon—would you be open to hearing more? Reply YES or STOP to opt out",
+};
+
+const migrateProfile = (profile: CampaignProfile): CampaignProfile => ({
+  ...profile,
+  exampleMessages: profile.exampleMessages.map(m => OLD_DEFAULT_EXAMPLES[m] ?? m),
+  spanishOptOutSuffix: profile.spanishOptOutSuffix && profile.spanishOptOutSuffix !== OLD_SPANISH_OPT_OUT_SUFFIX
+    ? profile.spanishOptOutSuffix
+    : DEFAULT_SPANISH_OPT_OUT_SUFFIX,
+  language: profile.language ?? 'en',
+  followUpSteps: profile.followUpSteps ?? DEFAULT_FOLLOW_UP_STEPS,
+});
+
+/**
+ * Loads the full lead history, newest first.
+ */
+export const loadLeads = async (): Promise<Lead[]> => {
+  const leads = await getAll<Lead>(LEADS_STORE);
+  return leads
+    .map(migrateLead)
+    .sort((a, b) => b.extractedAt.localeCompare(a.extractedAt));
+};
+
+/**
+ * What changed between two versions of the lead list. Updates replace a
+ * lead object, so an unchanged lead is the same object in both.
+ */
+export const diffLeads = (previous: Lead[], next: Lead[]): { changed: Lead[]; deletedIds: string[] } => {
+  const before = new Map(previous.map(lead => [lead.id, lead]));
+  const nextIds = new Set(next.map(lead => lead.id));
+  return {
+    changed: next.filter(lead => before.get(lead.id) !== lead),
+    deletedIds: previous.filter(lead => !nextIds.has(lead.id)).map(lead => lead.id),
+  };
+};
+
+/**
+ * Writes changed leads and removes deleted ones, leaving the rest of the
+ * stored history as it is.
+ */
+export const saveLeadChanges = (changed: Lead[], deletedIds: string[]): Promise<void> =>
+  runTransaction(LEADS_STORE, "readwrite", store => {
+    changed.forEach(lead => store.put(lead));
+    deletedIds.forEach(id => store.delete(id));
+  });
+
+/**
+ * Removes every lead from the stored history.
+ */
+export const clearLeads = (): Promise<void> =>
+  runTransaction(LEADS_STORE, "readwrite", store => {
+    store.clear();
+  });
+
+/**
+ * Loads the Do-Not-Contact list.
+ */
+export const loadSuppressedNumbers = (): Promise<SuppressedNumber[]> =>
+  getAll<SuppressedNumber>(SUPPRESSION_STORE);
+
+/**
+ * Adds numbers to the Do-Not-Contact list. Existing entries keep their original date.
+ */
+export const addSuppressedNumbers = (entries: SuppressedNumber[]): Promise<void> =>
+  runTransaction(SUPPRESSION_STORE, "readwrite", store => {
+    entries.forEach(entry => {
+      const existing = store.get(entry.phoneE164);
+      existing.onsuccess = () => {
+        if (!existing.result) store.put(entry);
+      };
+    });
+  });
+
+/**
+ * Removes a single number from the Do-Not-Contact list.
+ */
+export const removeSuppressedNumber = (phoneE164: string): Promise<void> =>
+  runTransaction(SUPPRESSION_STORE, "readwrite", store => {
+    store.delete(phoneE164);
+  });
+
+/**
+ * Loads every saved campaign profile.
+ */
+export const loadProfiles = async (): Promise<CampaignProfile[]> => {
+  const profiles = await getAll<CampaignProfile>(PROFILES_STORE);
+  return profiles.map(migrateProfile);
+};
+
+/**
+ * Inserts or updates campaign profiles.
+ */
+export const saveProfiles = (profiles: CampaignProfile[]): Promise<void> =>
+  runTransaction(PROFILES_STORE, "readwrite", store => {
+    profiles.forEach(profile => store.put(profile));
+  });
+
+/**
+ * Deletes a single campaign profile.
+ */
+export const deleteProfile = (id: string): Promise<void> =>
+  runTransaction(PROFILES_STORE, "readwrite", store => {
+    store.delete(id);
+  });
+
+/**
+ * Loads the extraction audit log, newest first.
+ */
+export const loadAuditLog = async (): Promise<AuditLogEntry[]> => {
+  const entries = await getAll<AuditLogEntry>(AUDIT_STORE);
+  return entries.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+};
+
+/**
+ * Records one entry in the audit log. add() fails rather than overwrite,
+ * and nothing in the app edits or deletes entries.
+ */
+export const appendAuditEntry = (entry: AuditLogEntry): Promise<void> =>
+  runTransaction(AUDIT_STORE, "readwrite", store => {
+    store.add(entry);
+  });
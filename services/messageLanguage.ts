@@ -0,0 +1,51 @@
+import { LanguageSetting, LeadInput, MessageLanguage } from "../types";
+import { formatExtraFieldValue } from "./extraFields";
+
+export const LANGUAGE_LABELS: Record<MessageLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+};
+
+export const LANGUAGE_SETTING_LABELS: Record<LanguageSetting, string> = {
+  en: "English",
+  es: "Spanish",
+  auto: "Auto-detect per lead",
+};
+
+const SPANISH_HINT = /\b(spanish|espa[nñ]ol|hispan\w*|latin[oa]s?)\b/i;
+const ENGLISH_HINT = /\b(english|ingl[eé]s)\b/i;
+
+// Common Spanish-language surnames. Only a hint: the user can switch any lead.
+const SPANISH_SURNAMES = new Set([
+  "garcia", "rodriguez", "martinez", "hernandez", "lopez", "gonzalez", "perez", "sanchez", "ramirez", "torres",
+  "flores", "rivera", "gomez", "diaz", "reyes", "morales", "cruz", "ortiz", "gutierrez", "chavez",
+  "ramos", "ruiz", "alvarez", "mendoza", "castillo", "jimenez", "vasquez", "vazquez", "moreno", "herrera",
+  "medina", "aguilar", "vargas", "castro", "guzman", "fernandez", "juarez", "mendez", "salazar", "soto",
+  "delgado", "pena", "rios", "alvarado", "sandoval", "contreras", "valdez", "guerrero", "ortega", "estrada",
+  "nunez", "maldonado", "vega", "dominguez", "rojas", "espinoza", "silva", "padilla", "figueroa", "marquez",
+  "cervantes", "fuentes", "cabrera", "acosta", "navarro", "cortez", "campos", "ibarra", "luna", "trevino",
+]);
+
+// "Peña" and "PEÑA" both become "pena"
+const simplify = (word: string) => word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+/**
+ * Guesses the language for one lead. A language in its extra details
+ * wins, then the file name (e.g. "spanish_drivers.csv"), then the surname.
+ * Anything else is English.
+ */
+export const detectLanguage = (lead: LeadInput, sourceFile: string): MessageLanguage => {
+  const details = Object.values(lead.extraFields || {}).map(formatExtraFieldValue).join(" ");
+  if (SPANISH_HINT.test(details)) return 'es';
+  if (ENGLISH_HINT.test(details)) return 'en';
+  if (SPANISH_HINT.test(sourceFile.replace(/[_.-]/g, " "))) return 'es';
+
+  const words = lead.fullName.split(/[\s,]+/).map(simplify);
+  return words.some(word => SPANISH_SURNAMES.has(word)) ? 'es' : 'en';
+};
+
+/**
+ * The language a new lead's message is written in under the campaign setting.
+ */
+export const resolveLanguage = (setting: LanguageSetting, lead: LeadInput, sourceFile: string): MessageLanguage =>
+  setting === 'auto' ? detectLanguage(lead, sourceFile) : setting;
@@ -0,0 +1,104 @@
+import { Lead, SimilarityReport } from "../types";
+import { DEFAULT_OPT_OUT_SUFFIX } from "./complianceRules";
+
+// Two messages sharing at least this share of word n-grams count as "too alike"
+export const SIMILARITY_THRESHOLD = 0.45;
+
+// Pairwise comparison is O(n²); larger batches are analyzed on their first N messages
+export const MAX_ANALYZED_MESSAGES = 500;
+
+const SHINGLE_SIZES = [2, 3];
+
+/**
+ * Lowercases a message and removes the parts every message is expected to
+ * share (the opt-out suffix and the recipient's name) so they don't inflate scores.
+ */
+const normalizeMessage = (message: string, fullName: string, optOutSuffixes: string[]): string[] => {
+  let text = message.toLowerCase();
+  optOutSuffixes.forEach(suffix => {
+    text = text.replace(suffix.toLowerCase(), " ");
+  });
+  fullName
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(part => part.length > 1)
+    .forEach(part => {
+      text = text.split(part).join(" ");
+    });
+  return text.replace(/[^a-z0-9'\s]/g, " ").split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Builds the set of word bigrams and trigrams for a message.
+ */
+const toShingles = (words: string[]): Set<string> => {
+  const shingles = new Set<string>();
+  SHINGLE_SIZES.forEach(size => {
+    for (let i = 0; i + size <= words.length; i++) {
+      shingles.add(words.slice(i, i + size).join(" "));
+    }
+  });
+  // Very short messages still need something to compare
+  if (shingles.size === 0) words.forEach(w => shingles.add(w));
+  return shingles;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  small.forEach(item => {
+    if (large.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+};
+
+/**
+ * Compares every pair of messages in a batch, groups the ones that are too
+ * alike into clusters, and scores overall variety from 0 (identical) to 100.
+ */
+export const analyzeBatchSimilarity = (
+  leads: Pick<Lead, 'id' | 'fullName' | 'outreachMessage'>[],
+  // One per message language
+  optOutSuffixes: string[] = [DEFAULT_OPT_OUT_SUFFIX],
+  threshold: number = SIMILARITY_THRESHOLD
+): SimilarityReport => {
+  const analyzed = leads.slice(0, MAX_ANALYZED_MESSAGES);
+  const shingles = analyzed.map(lead => toShingles(normalizeMessage(lead.outreachMessage, lead.fullName, optOutSuffixes)));
+
+  // Union-find over "too similar" pairs
+  const parent = analyzed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  let total = 0;
+  let pairs = 0;
+  let maxSimilarity = 0;
+
+  for (let i = 0; i < analyzed.length; i++) {
+    for (let j = i + 1; j < analyzed.length; j++) {
+      const score = jaccard(shingles[i], shingles[j]);
+      total += score;
+      pairs++;
+      maxSimilarity = Math.max(maxSimilarity, score);
+      if (score >= threshold) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  analyzed.forEach((lead, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), lead.id]);
+  });
+  const clusters = Array.from(groups.values()).filter(group => group.length > 1);
+
+  // Keep one message per cluster; the rest are the ones worth rewriting
+  const flaggedIds = clusters.flatMap(group => group.slice(1));
+
+  return {
+    varietyScore: pairs === 0 ? 100 : Math.round((1 - total / pairs) * 100),
+    maxSimilarity,
+    clusters,
+    flaggedIds,
+    analyzedCount: analyzed.length,
+  };
+};
@@ -0,0 +1,73 @@
+import { LeadInput, MessageLanguage } from "../types";
+
+// Canned output for the offline mock provider. Numbers are valid NANP
+// numbers so they pass phone validation; none belong to real drivers.
+
+// Returned for every image or PDF page, since the mock can't read them.
+// Entries are stacked like rows on a form; two are low-confidence so the
+// review queue has something in it.
+export const MOCK_DOCUMENT_LEADS: LeadInput[] = [
+  {
+    fullName: "Marcus Bell", phoneNumber: "(312) 448-2291", confidence: { fullName: 0.97, phoneNumber: 0.95 },
+    extraFields: { location: "Chicago, IL", cdlClass: "A", endorsements: ["Hazmat", "Tanker"], yearsExperience: 8 },
+  },
+  {
+    fullName: "Dana Whitfield", phoneNumber: "(214) 637-9052", confidence: { fullName: 0.94, phoneNumber: 0.96 },
+    extraFields: { location: "Dallas, TX", cdlClass: "A", yearsExperience: 3 },
+  },
+  {
+    fullName: "Luis Ortega", phoneNumber: "(404) 782-3316", confidence: { fullName: 0.96, phoneNumber: 0.91 },
+    extraFields: { location: "Atlanta, GA", cdlClass: "B", endorsements: ["Passenger"] },
+  },
+  {
+    fullName: "Tamara Reyes", phoneNumber: "(602) 915-4478", confidence: { fullName: 0.92, phoneNumber: 0.62 },
+    extraFields: { location: "Phoenix, AZ", cdlClass: "A", endorsements: ["Doubles/Triples"], yearsExperience: 12 },
+  },
+  {
+    fullName: "Kevin O'Neal", phoneNumber: "(713) 264-8830", confidence: { fullName: 0.55, phoneNumber: 0.93 },
+    extraFields: { location: "Houston, TX" },
+  },
+].map((lead, i) => ({ ...lead, sourceRegion: { x: 0.05, y: 0.1 + i * 0.15, width: 0.9, height: 0.1 } }));
+
+// {firstName}, {intro} and {offering} are filled from the lead and the
+// campaign profile; a call to action and the opt-out suffix are appended
+export const MOCK_MESSAGE_TEMPLATES: Record<MessageLanguage, string[]> = {
+  en: [
+    "Hi {firstName}, {intro}. We have {offering} openings right now.",
+    "Hey {firstName}, {intro}. Are you open to {offering}?",
+    "Hello {firstName}, {intro}. We're hiring for {offering}.",
+    "Good morning {firstName}, {intro}. Any interest in {offering}?",
+  ],
+  es: [
+    "Hola {firstName}, {intro}. Tenemos puestos de {offering} ahora mismo.",
+    "Buenos dias {firstName}, {intro}. ¿Le interesa {offering}?",
+    "Hola {firstName}, {intro}. Estamos contratando para {offering}.",
+  ],
+};
+
+// Same placeholders; used for every follow-up step. Each names the sender,
+// since follow-ups are checked like first texts
+export const MOCK_FOLLOW_UP_TEMPLATES: Record<MessageLanguage, string[]> = {
+  en: [
+    "Hi {firstName}, {intro} again. Still looking? We have {offering} open.",
+    "{firstName}, {intro}. Following up on my last text about {offering}.",
+    "Hey {firstName}, {intro}. Checking back in about {offering}.",
+  ],
+  es: [
+    "Hola {firstName}, {intro} otra vez. ¿Sigue buscando? Tenemos {offering}.",
+    "{firstName}, {intro}. Le escribo de nuevo sobre {offering}.",
+  ],
+};
+
+// The profile's call to action is an instruction for the AI, not message text
+export const MOCK_CALLS_TO_ACTION: Record<MessageLanguage, string[]> = {
+  en: [
+    "Open to hearing more?",
+    "Want the details?",
+    "Is now a good time to chat?",
+  ],
+  es: [
+    "¿Quiere mas informacion?",
+    "¿Le gustaria saber mas?",
+  ],
+};
@@ -0,0 +1,107 @@
+import { AiErrorKind, AiProvider, CampaignProfile, FollowUpContext, LeadInput, MessageLanguage } from "../types";
+import { AiServiceError } from "./aiErrors";
+import { MOCK_CALLS_TO_ACTION, MOCK_DOCUMENT_LEADS, MOCK_FOLLOW_UP_TEMPLATES, MOCK_MESSAGE_TEMPLATES } from "./mockFixtures";
+import { formatExtraFieldValue, readExtraFieldValues } from "./extraFields";
+import { getOptOutSuffix } from "./complianceRules";
+
+// Put "#mock-error:<kind>" in an uploaded text file to simulate that failure
+const MOCK_ERROR_PATTERN = /#mock-error:([a-z-]+)/;
+const SIMULATED_ERRORS: AiErrorKind[] = ['auth', 'rate-limit', 'unavailable', 'blocked', 'unsupported', 'malformed-output', 'unknown'];
+
+// Work that needs one of these endorsements is only pitched to drivers who have it
+const ENDORSEMENT_WORDS = ["hazmat", "tanker", "doubles", "triples", "passenger"];
+
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+
+/**
+ * Reads "name, phone" style rows: the first phone-like run of digits is the
+ * number and the first remaining cell with letters is the name.
+ */
+const extractFromText = (text: string): LeadInput[] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    const phone = line.match(PHONE_PATTERN);
+    if (!phone) return [];
+    // Quoted cells may contain separators ("Smith, John")
+    const cells = line.replace(phone[0], "").match(/"[^"]*"|[^,\t;|]+/g) || [];
+    const fullName = cells
+      .map(cell => cell.replace(/"/g, "").trim())
+      .find(cell => /[a-z]/i.test(cell)) || "";
+    return [{
+      fullName,
+      phoneNumber: phone[0].trim(),
+      // A row without a readable name is the kind a person should check
+      confidence: { fullName: fullName ? 0.95 : 0.3, phoneNumber: 0.95 },
+      sourceRow: index + 1,
+    }];
+  });
+
+// Same input, same pick: keeps the mock's output stable between runs
+const pickIndex = (seed: string, count: number): number =>
+  Array.from(seed).reduce((sum, char) => sum + char.charCodeAt(0), 0) % count;
+
+// Handles "Last, First" as well as "First Last"
+const getFirstName = (fullName: string): string => {
+  const name = fullName.includes(",") ? fullName.split(",")[1] : fullName;
+  return name.trim().split(/\s+/)[0] || "there";
+};
+
+const getIntro = (profile: CampaignProfile, language: MessageLanguage): string => {
+  const sender = profile.senderName.trim();
+  const company = profile.companyName.trim();
+  const role = profile.roleDescription.trim();
+  if (language === 'es') {
+    if (sender && company) return `soy ${sender} de ${company}`;
+    if (sender) return `soy ${sender}`;
+    if (company) return `le escribimos de ${company}`;
+    return `le escribo por un trabajo ${role ? `de ${role}` : "de manejo"}`;
+  }
+  if (sender && company) return `this is ${sender} from ${company}`;
+  if (sender) return `this is ${sender}`;
+  if (company) return `reaching out from ${company}`;
+  return `reaching out about a ${role || "driving"} job`;
+};
+
+const canPitch = (offering: string, lead: LeadInput): boolean => {
+  const details = Object.values(lead.extraFields || {}).map(formatExtraFieldValue).join(" ").toLowerCase();
+  return ENDORSEMENT_WORDS.every(word => !offering.toLowerCase().includes(word) || details.includes(word));
+};
+
+const writeMessage = (lead: LeadInput, profile: CampaignProfile, followUp?: FollowUpContext): string => {
+  const language = lead.language || 'en';
+  const offerings = profile.jobOfferings.map(o => o.trim()).filter(o => o && canPitch(o, lead));
+  const role = profile.roleDescription.trim();
+  const offering = offerings.length > 0
+    ? offerings[pickIndex(lead.phoneNumber, offerings.length)].toLowerCase()
+    : language === 'es' ? `trabajos ${role ? `de ${role}` : "de manejo"}` : `${role || "driving"} roles`;
+
+  const templates = (followUp ? MOCK_FOLLOW_UP_TEMPLATES : MOCK_MESSAGE_TEMPLATES)[language];
+  const body = templates[pickIndex(lead.phoneNumber + lead.fullName + (followUp?.step ?? ""), templates.length)]
+    .replace("{firstName}", getFirstName(lead.fullName))
+    .replace("{intro}", getIntro(profile, language))
+    .replace("{offering}", offering);
+  const calls = MOCK_CALLS_TO_ACTION[language];
+  const cta = calls[pickIndex(lead.fullName, calls.length)];
+  return `${body} ${cta} ${getOptOutSuffix(profile, language)}`.trim();
+};
+
+/**
+ * Offline provider for development and automated tests. Deterministic and
+ * fixture-driven: text is parsed with simple rules, images and PDF pages
+ * return the fixture leads, and messages are filled-in templates.
+ */
+export const mockProvider: AiProvider = {
+  extractLeads: async (fileContent, mimeType, _settings, fields) => {
+    if (mimeType.startsWith("image/") || mimeType === "application/pdf") {
+      // Only the details the user asked for, as a real model would
+      return MOCK_DOCUMENT_LEADS.map(lead => ({ ...lead, extraFields: readExtraFieldValues(lead.extraFields, fields) }));
+    }
+
+    const simulated = fileContent.match(MOCK_ERROR_PATTERN)?.[1] as AiErrorKind | undefined;
+    if (simulated && SIMULATED_ERRORS.includes(simulated)) throw new AiServiceError(simulated);
+
+    return extractFromText(fileContent);
+  },
+
+  writeMessages: async (leads, profile, _avoidMessages, _settings, followUp) =>
+    leads.map(lead => ({ ...lead, outreachMessage: writeMessage(lead, profile, followUp) })),
+};
@@ -0,0 +1,106 @@
+import { AiProvider, AiSettings } from "../types";
+import { AiServiceError, toAiServiceError } from "./aiErrors";
+import {
+  getExtractionInstruction, getExtractionFormat, getMessageInstruction, MESSAGE_FORMAT,
+  getExtractionRequest, getDocumentExtractionRequest, getMessageRequest,
+} from "./aiPrompts";
+import { isRecord, parseJsonArray, toLeadInputs, matchMessages } from "./aiOutput";
+
+type MessageContent = string | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[];
+
+/**
+ * Sends one chat completion request and returns the reply text.
+ */
+const chatCompletion = async (
+  settings: AiSettings,
+  systemInstruction: string,
+  content: MessageContent,
+  temperature: number
+): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${settings.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature,
+        messages: [
+          { role: "system", content: systemInstruction },
+          { role: "user", content },
+        ],
+      }),
+    });
+  } catch (cause) {
+    // Server not running, wrong URL, or blocked by CORS
+    throw new AiServiceError('unknown', { cause });
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw toAiServiceError(new Error(body || response.statusText), response.status);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (cause) {
+    throw new AiServiceError('malformed-output', { cause });
+  }
+
+  const choice: unknown = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  if (!isRecord(choice)) return "";
+  if (choice.finish_reason === "content_filter") throw new AiServiceError('blocked');
+  // A reply cut off at the token limit is never valid JSON
+  if (choice.finish_reason === "length") throw new AiServiceError('malformed-output');
+  return isRecord(choice.message) && typeof choice.message.content === "string" ? choice.message.content : "";
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API (OpenAI itself,
+ * Ollama, LM Studio, llama.cpp, vLLM). Images need a vision model; PDFs
+ * are not supported.
+ */
+export const openAiProvider: AiProvider = {
+  extractLeads: async (fileContent, mimeType, settings, fields) => {
+    if (mimeType === "application/pdf") throw new AiServiceError('unsupported');
+
+    try {
+      const content: MessageContent = mimeType.startsWith("image/")
+        ? [
+            { type: "image_url", image_url: { url: `data:${mimeType};base64,${fileContent}` } },
+            { type: "text", text: getDocumentExtractionRequest(mimeType) },
+          ]
+        : getExtractionRequest(fileContent);
+
+      const reply = await chatCompletion(
+        settings,
+        getExtractionInstruction(fields) + getExtractionFormat(fields),
+        content,
+        settings.extractionTemperature
+      );
+      return toLeadInputs(parseJsonArray(reply), fields);
+    } catch (error) {
+      console.error("OpenAI-compatible Extraction Error:", error);
+      throw toAiServiceError(error);
+    }
+  },
+
+  writeMessages: async (leads, profile, avoidMessages, settings, followUp) => {
+    try {
+      const reply = await chatCompletion(
+        settings,
+        getMessageInstruction(profile, followUp) + MESSAGE_FORMAT,
+        getMessageRequest(leads, avoidMessages),
+        settings.messageTemperature
+      );
+      return matchMessages(leads, parseJsonArray(reply));
+    } catch (error) {
+      console.error("OpenAI-compatible Message Generation Error:", error);
+      throw toAiServiceError(error);
+    }
+  },
+};
@@ -0,0 +1,37 @@
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * Returns true for PDF uploads (some browsers report an empty mime type).
+ */
+export const isPdfFile = (file: File): boolean =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+/**
+ * Encodes bytes as base64 in chunks (String.fromCharCode has an argument limit).
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Splits a PDF into single-page PDFs so each page can be sent to the AI
+ * on its own. Returns base64 data, one entry per page (index 0 = page 1).
+ */
+export const splitPdfPages = async (file: File): Promise<string[]> => {
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pages: string[] = [];
+
+  for (let i = 0; i < source.getPageCount(); i++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [i]);
+    single.addPage(page);
+    pages.push(toBase64(await single.save()));
+  }
+
+  return pages;
+};
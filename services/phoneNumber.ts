@@ -0,0 +1,97 @@
+import { PhoneCheck } from "../types";
+
+// NANP numbering rules used to validate and canonicalize phone numbers
+// independently of whatever format the model (or a spreadsheet) produced.
+const TOLL_FREE_AREA_CODES = new Set(["800", "833", "844", "855", "866", "877", "888"]);
+const PREMIUM_AREA_CODES = new Set(["900", "976"]);
+// Personal communications, government and other non-geographic codes that are
+// rarely a driver's personal cell.
+const NON_GEOGRAPHIC_AREA_CODES = new Set([
+  "500", "521", "522", "523", "524", "525", "526", "527", "528", "529", "533",
+  "544", "566", "577", "588", "600", "700", "710",
+]);
+
+/**
+ * Strips formatting and a leading country code, returning the 10-digit
+ * national number (or whatever digits remain if it isn't 10 long).
+ */
+const toNationalDigits = (raw: string): string => {
+  // Drop extensions like "x123" or "ext. 4" before counting digits
+  const withoutExtension = raw.split(/\s*(?:x|ext\.?|extension)\s*\d+\s*$/i)[0];
+  const digits = withoutExtension.replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("1")) return digits.slice(1);
+  return digits;
+};
+
+const isNxx = (code: string) => /^[2-9]\d\d$/.test(code) && code.slice(1) !== "11";
+
+/**
+ * Formats a 10-digit national number as (XXX) XXX-XXXX.
+ */
+export const formatNationalPhone = (national: string): string =>
+  `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+
+/**
+ * Validates a North American number and converts it to E.164 (+1XXXXXXXXXX).
+ * Invalid numbers come back with e164 = null and a human readable reason.
+ */
+export const normalizePhone = (raw: string): PhoneCheck => {
+  const national = toNationalDigits(raw || "");
+
+  const invalid = (issue: string): PhoneCheck => ({
+    e164: null,
+    display: (raw || "").trim(),
+    isValid: false,
+    lineType: 'standard',
+    issue,
+  });
+
+  if (national.length !== 10) return invalid(`Expected 10 digits, got ${national.length}`);
+
+  const areaCode = national.slice(0, 3);
+  const exchange = national.slice(3, 6);
+  const line = national.slice(6);
+
+  if (!isNxx(areaCode)) return invalid(`Invalid area code ${areaCode}`);
+  if (!isNxx(exchange)) return invalid(`Invalid exchange ${exchange}`);
+  if (exchange === "555" && /^01\d\d$/.test(line)) return invalid("Fictional 555-01XX number");
+
+  const result: PhoneCheck = {
+    e164: `+1${national}`,
+    display: formatNationalPhone(national),
+    isValid: true,
+    lineType: 'standard',
+  };
+
+  if (TOLL_FREE_AREA_CODES.has(areaCode)) {
+    return { ...result, lineType: 'toll-free', issue: "Toll-free number, likely a business line" };
+  }
+  if (PREMIUM_AREA_CODES.has(areaCode)) {
+    return { ...result, lineType: 'premium', issue: "Premium-rate number" };
+  }
+  if (NON_GEOGRAPHIC_AREA_CODES.has(areaCode)) {
+    return { ...result, lineType: 'non-geographic', issue: "Non-geographic number, likely not a personal cell" };
+  }
+
+  return result;
+};
+
+/**
+ * Canonical key used for duplicate detection. Falls back to the bare digits
+ * so that unparseable legacy records still compare consistently.
+ */
+export const phoneKey = (raw: string): string => normalizePhone(raw).e164 || toNationalDigits(raw || "");
+
+/**
+ * Pulls every valid phone number out of free text (pasted lists, CSV exports
+ * of opt-outs, etc.) and returns their unique E.164 forms.
+ */
+export const findPhoneNumbers = (text: string): string[] => {
+  const candidates = text.match(/\+?1?[\s.\-(]*\d{3}[\s.\-)]*\d{3}[\s.\-]*\d{4}/g) || [];
+  const numbers = new Set<string>();
+  candidates.forEach(candidate => {
+    const { e164 } = normalizePhone(candidate);
+    if (e164) numbers.add(e164);
+  });
+  return Array.from(numbers);
+};
@@ -0,0 +1,104 @@
+import { Redaction, RedactionKind } from "../types";
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  ssn: "Social Security number",
+  dob: "Date of birth",
+  address: "Street address",
+};
+
+const MASKS: Record<RedactionKind, string> = {
+  ssn: "[SSN REMOVED]",
+  dob: "[DOB REMOVED]",
+  address: "[ADDRESS REMOVED]",
+};
+
+// Dates with a year this many years back or more could be a birth date;
+// recent ones (application or hire dates) are left alone
+const MIN_AGE_YEARS = 16;
+
+const MONTHS = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const NUMERIC_DATE = "\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})";
+const ISO_DATE = "\\d{4}-\\d{1,2}-\\d{1,2}";
+const WRITTEN_DATE = `${MONTHS}\\s+\\d{1,2},?\\s+\\d{4}`;
+const ANY_DATE = `(?:${ISO_DATE}|${NUMERIC_DATE}|${WRITTEN_DATE})`;
+
+const STREET_TYPES = [
+  "street", "st", "avenue", "ave", "road", "rd", "boulevard", "blvd", "drive", "dr", "lane", "ln",
+  "court", "ct", "circle", "cir", "place", "pl", "parkway", "pkwy", "highway", "hwy", "way", "terrace",
+  "ter", "trail", "trl", "loop",
+].join("|");
+
+// Words that follow a number in driver notes ("12 yrs", "3 loads") rather than a street name
+const QUANTITY_WORDS = [
+  "yrs?", "years?", "mos?", "months?", "wks?", "weeks?", "days?", "hrs?", "hours?", "mi", "miles?",
+  "lbs?", "loads?", "trucks?", "kids?",
+].join("|");
+
+// A house number: not part of a longer run of digit groups, so no piece of
+// a phone number ("314 555 1234 St Louis") can be taken for one
+const HOUSE_NUMBER = "(?<![\\d)-][\\s.-]*)\\d{1,6}(?![\\s.-]*\\d+\\b)";
+
+// Street name words start with a letter, or are ordinals like "5th"
+const STREET_WORD = "(?:[A-Za-z][A-Za-z.']*|\\d+(?:st|nd|rd|th))";
+
+// Patterns are tried in order; each one only sees text the earlier ones left.
+// None of them can match any part of a 10-digit phone number.
+const PATTERNS: { kind: RedactionKind; pattern: RegExp }[] = [
+  { kind: 'ssn', pattern: /(?<![\d-])\d{3}-\d{2}-\d{4}(?![\d-])/g },
+  { kind: 'ssn', pattern: /\b(?:SSN|SS#|social security(?: number| no\.?)?)\s*[:#-]?\s*\d{3}[\s-]?\d{2}[\s-]?\d{4}(?!\d)/gi },
+  { kind: 'dob', pattern: new RegExp(`\\b(?:DOB|D\\.O\\.B\\.?|date of birth|birth ?date|born(?: on)?)\\s*[:#-]?\\s*${ANY_DATE}(?!\\d)`, "gi") },
+  {
+    kind: 'address',
+    pattern: new RegExp(
+      `${HOUSE_NUMBER}\\s+(?!(?:${QUANTITY_WORDS})\\b)(?:${STREET_WORD}\\s+){0,4}(?:${STREET_TYPES})\\b\\.?` +
+      `(?:,?\\s*(?:apt|apartment|suite|ste|unit|#)\\.?\\s*[A-Za-z0-9-]+)?`,
+      "gi"
+    ),
+  },
+  { kind: 'address', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+/gi },
+];
+
+// Unlabelled dates; only those old enough to be a birth date are masked
+const DATE_PATTERN = new RegExp(`(?<![\\d/.-])${ANY_DATE}(?![\\d/.-])`, "gi");
+
+const readYear = (date: string): number => {
+  const year = date.match(/\d{4}/);
+  return year ? parseInt(year[0], 10) : NaN;
+};
+
+/**
+ * Masks Social Security numbers, birth dates and street addresses in text
+ * before it is sent to the AI. Runs line by line so row numbers stay the
+ * same. Names, phone numbers, cities and states are kept.
+ * @returns The masked text and what was masked on which line (1-based)
+ */
+export const redactText = (text: string): { text: string; redactions: Redaction[] } => {
+  const redactions: Redaction[] = [];
+  const latestBirthYear = new Date().getFullYear() - MIN_AGE_YEARS;
+
+  const lines = text.split("\n").map((line, i) => {
+    const mask = (kind: RedactionKind) => (value: string) => {
+      redactions.push({ kind, line: i + 1, value: value.trim() });
+      return MASKS[kind];
+    };
+    let masked = line;
+    PATTERNS.forEach(({ kind, pattern }) => {
+      masked = masked.replace(pattern, mask(kind));
+    });
+    return masked.replace(DATE_PATTERN, date => {
+      const year = readYear(date);
+      return year >= 1900 && year <= latestBirthYear ? mask('dob')(date) : date;
+    });
+  });
+
+  return { text: lines.join("\n"), redactions };
+};
+
+/**
+ * Counts masked values by kind, e.g. for the audit log.
+ */
+export const countRedactions = (redactions: Redaction[]): Partial<Record<RedactionKind, number>> =>
+  redactions.reduce<Partial<Record<RedactionKind, number>>>((counts, r) => {
+    counts[r.kind] = (counts[r.kind] || 0) + 1;
+    return counts;
+  }, {});
@@ -0,0 +1,57 @@
+import { AiErrorKind, AiProvider, ExtractedData, LeadInput } from "../types";
+import { AiServiceError, toAiServiceError } from "./aiErrors";
+
+// Served by server/api.ts (and by the Vite dev server during `npm run dev`)
+const API_BASE = "/api";
+
+/**
+ * Posts a JSON body to the app server. Failures come back as
+ * { error: { kind } } and are rebuilt into the same typed errors.
+ */
+const postJson = async <T,>(path: string, body: unknown, accessKey: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(accessKey && { Authorization: `Bearer ${accessKey}` }) },
+      body: JSON.stringify(body),
+    });
+  } catch (cause) {
+    throw new AiServiceError('unknown', { cause });
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const kind = data?.error?.kind as AiErrorKind | undefined;
+    // Sent with the server's own rate limit, in seconds
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+    if (kind) throw new AiServiceError(kind, { status: response.status, retryAfterMs });
+    throw toAiServiceError(new Error(response.statusText), response.status);
+  }
+  if (data === null) throw new AiServiceError('malformed-output');
+  return data as T;
+};
+
+/**
+ * Gemini through the app server, which holds the API key.
+ */
+export const proxyProvider: AiProvider = {
+  extractLeads: async (fileContent, mimeType, { accessKey, ...settings }, fields) => {
+    const { leads } = await postJson<{ leads: LeadInput[] }>(
+      "/extract",
+      { fileContent, mimeType, settings, fields },
+      accessKey
+    );
+    return leads;
+  },
+
+  writeMessages: async (leads, profile, avoidMessages, { accessKey, ...settings }, followUp) => {
+    const { messages } = await postJson<{ messages: ExtractedData[] }>(
+      "/messages",
+      { leads, profile, avoidMessages, settings, followUp },
+      accessKey
+    );
+    return messages;
+  },
+};
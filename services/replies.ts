@@ -0,0 +1,152 @@
+import { InboundReply, Lead, LeadStatus, ReplyCategory } from "../types";
+import { normalizePhone } from "./phoneNumber";
+import { readSheetGrid } from "./spreadsheetParser";
+
+export const REPLY_CATEGORY_LABELS: Record<ReplyCategory, string> = {
+  'interested': "Interested",
+  'opt-out': "Opt-out",
+  'question': "Question",
+  'wrong-number': "Wrong number",
+  'other': "Other",
+};
+
+// Carrier opt-out keywords (CTIA), plus the Spanish "baja"/"alto"; any of these as the first word is a STOP
+const OPT_OUT_KEYWORDS = new Set(["stop", "stopall", "unsubscribe", "cancel", "end", "quit", "optout", "revoke", "baja", "alto"]);
+// "Stop" anywhere counts too: a missed opt-out costs far more than a lost lead
+const OPT_OUT_PHRASES = /\b(stop|stopall|unsubscribe|opt\s*out|remove me|take me off|(do not|don'?t) (text|message|contact)|lose my number|leave me alone)\b/;
+
+const WRONG_NUMBER_PHRASES = /\b(wrong (number|person|#)|not (me|him|her)\b|no one (here )?by that name|nobody (here )?by that name|(don'?t|do not) know (him|her|them|this person)|(this|i) (is|am)n'?t (him|her))/;
+
+// Checked before the interested words so "not interested" isn't read as a yes
+const DECLINE_PHRASES = /\b(not interested|no thanks?|no thank you|not looking|already (have|got) a job|no me interesa|no gracias)\b/;
+// Spanish messages ask for "SI", so Spanish yeses count too
+const INTERESTED_WORDS = new Set(["yes", "y", "yeah", "yea", "yep", "yup", "sure", "ok", "okay", "interested", "absolutely", "definitely", "si", "claro"]);
+const INTERESTED_PHRASES = /\b(i'?m interested|i am interested|call me|sounds good|tell me more|more info|send (me )?(the )?details|me interesa|llameme)\b/;
+
+const QUESTION_WORDS = /^(how|what|when|where|who|which|why|is|are|does|do|can|could|will|would)\b/;
+
+/**
+ * Sorts a reply into the category that decides the lead's next status.
+ * Opt-outs are checked first so a STOP is never missed.
+ */
+export const classifyReply = (body: string): ReplyCategory => {
+  // Accents removed so "Sí" reads as "si" rather than losing the í
+  const text = body.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’‘]/g, "'").replace(/\s+/g, " ").trim();
+  const firstWord = text.replace(/[^a-z' ]/g, "").split(" ")[0] || "";
+
+  if (OPT_OUT_KEYWORDS.has(firstWord) || OPT_OUT_PHRASES.test(text)) return 'opt-out';
+  if (WRONG_NUMBER_PHRASES.test(text)) return 'wrong-number';
+  if (DECLINE_PHRASES.test(text)) return 'other';
+  if (INTERESTED_WORDS.has(firstWord) || INTERESTED_PHRASES.test(text)) return 'interested';
+  if (text.includes("?") || QUESTION_WORDS.test(text)) return 'question';
+  return 'other';
+};
+
+/**
+ * Next pipeline status after a reply. Opt-outs are final; a question or
+ * other reply never undoes an interested or wrong-number lead.
+ */
+export const getStatusAfterReply = (current: LeadStatus, category: ReplyCategory): LeadStatus => {
+  if (current === 'opted-out' || category === 'opt-out') return 'opted-out';
+  if (category === 'interested') return 'interested';
+  if (category === 'wrong-number') return 'wrong-number';
+  return current === 'interested' || current === 'wrong-number' ? current : 'replied';
+};
+
+export interface ReplyMatchResult {
+  leads: Lead[];
+  matchedCount: number;
+  unmatched: InboundReply[];
+  // Every number that replied with an opt-out, matched to a lead or not
+  optOutNumbers: string[];
+}
+
+/**
+ * Matches replies to leads by E.164 number and moves each matched lead along
+ * the pipeline, oldest reply first. Replies older than a lead's last reply
+ * are ignored, so importing the same log twice changes nothing.
+ */
+export const applyReplies = (leads: Lead[], replies: InboundReply[]): ReplyMatchResult => {
+  const byPhone = new Map<string, Lead[]>();
+  leads.forEach(lead => byPhone.set(lead.phoneE164, [...(byPhone.get(lead.phoneE164) || []), lead]));
+
+  const updated = new Map<string, Lead>();
+  const unmatched: InboundReply[] = [];
+  const optOutNumbers = new Set<string>();
+  let matchedCount = 0;
+
+  [...replies]
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+    .forEach(reply => {
+      const category = classifyReply(reply.body);
+      if (category === 'opt-out') optOutNumbers.add(reply.from);
+
+      const matches = byPhone.get(reply.from);
+      if (!matches) {
+        unmatched.push(reply);
+        return;
+      }
+      matchedCount++;
+
+      matches.forEach(original => {
+        const lead = updated.get(original.id) || original;
+        if (lead.lastReply && lead.lastReply.receivedAt >= reply.receivedAt) return;
+        updated.set(lead.id, {
+          ...lead,
+          status: getStatusAfterReply(lead.status, category),
+          lastReply: { body: reply.body, category, receivedAt: reply.receivedAt },
+        });
+      });
+    });
+
+  return {
+    leads: updated.size > 0 ? leads.map(lead => updated.get(lead.id) || lead) : leads,
+    matchedCount,
+    unmatched,
+    optOutNumbers: Array.from(optOutNumbers).filter(phone => phone.startsWith("+")),
+  };
+};
+
+// How many leading rows to scan for the reply log's header row
+const HEADER_SCAN_ROWS = 10;
+
+const FROM_PATTERN = /^(from|from number|sender|phone|phone number|number|mobile|cell)$/i;
+const BODY_PATTERN = /^(body|message|message body|text|reply|content)$/i;
+const DATE_PATTERN = /(date|time|received|sent)/i;
+const DIRECTION_PATTERN = /^direction$/i;
+
+/**
+ * Reads a reply log exported from an SMS provider (CSV/XLSX). Needs a
+ * sender column and a message column; outbound rows are skipped when the
+ * log has a direction column.
+ */
+export const parseReplyLog = async (file: File): Promise<InboundReply[]> => {
+  const grid = await readSheetGrid(file);
+  const importedAt = new Date().toISOString();
+
+  for (let i = 0; i < Math.min(grid.length, HEADER_SCAN_ROWS); i++) {
+    const headers = grid[i].map(h => h.replace(/[_\-.:]+/g, " ").replace(/\s+/g, " ").trim());
+    const fromColumn = headers.findIndex(h => FROM_PATTERN.test(h));
+    const bodyColumn = headers.findIndex(h => BODY_PATTERN.test(h));
+    if (fromColumn === -1 || bodyColumn === -1) continue;
+
+    const dateColumn = headers.findIndex(h => DATE_PATTERN.test(h));
+    const directionColumn = headers.findIndex(h => DIRECTION_PATTERN.test(h));
+
+    return grid.slice(i + 1)
+      .filter(row => directionColumn === -1 || !/outbound/i.test(row[directionColumn] || ""))
+      .filter(row => (row[bodyColumn] || "").length > 0)
+      .map(row => {
+        const date = dateColumn === -1 ? NaN : Date.parse(row[dateColumn]);
+        return {
+          id: crypto.randomUUID(),
+          from: normalizePhone(row[fromColumn] || "").e164 || (row[fromColumn] || ""),
+          body: row[bodyColumn],
+          receivedAt: Number.isNaN(date) ? importedAt : new Date(date).toISOString(),
+        };
+      });
+  }
+
+  throw new Error(`No sender and message columns found in ${file.name}.`);
+};
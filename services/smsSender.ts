@@ -0,0 +1,270 @@
+import { DueText, FollowUpStep, InboundReply, Lead, SmsSendResult, SmsSettings, SuppressedNumber } from "../types";
+import { isCompliant } from "./complianceRules";
+import { getFollowUpMessage, getNextFollowUpStep, isFollowUpDue } from "./followUps";
+import { needsReview } from "./sourceReview";
+
+const SMS_SETTINGS_KEY = "cold-leads.smsSettings";
+
+// Served by server/api.ts, which holds the gateway credentials
+const API_BASE = "/api/sms";
+
+export const DEFAULT_SMS_SETTINGS: SmsSettings = {
+  messagesPerMinute: 20,
+  // TCPA quiet hours: nothing before 8 AM or after 9 PM where the recipient is
+  quietHoursStart: 21,
+  quietHoursEnd: 8,
+  recipientCooldownHours: 24,
+  accessKey: "",
+};
+
+/**
+ * Reads the saved sending settings from this browser, filling in anything missing.
+ */
+export const loadSmsSettings = (): SmsSettings => {
+  try {
+    return { ...DEFAULT_SMS_SETTINGS, ...JSON.parse(localStorage.getItem(SMS_SETTINGS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_SMS_SETTINGS;
+  }
+};
+
+export const saveSmsSettings = (settings: SmsSettings) => {
+  localStorage.setItem(SMS_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// A mainland area code doesn't say where the phone is (people keep their
+// number when they move), so it could be in any of these
+const MAINLAND_TIME_ZONES = ["America/New_York", "America/Chicago", "America/Denver", "America/Phoenix", "America/Los_Angeles"];
+
+// Area codes outside the mainland time zones
+const AREA_CODE_TIME_ZONES: Record<string, string[]> = {
+  "808": ["Pacific/Honolulu"],
+  "907": ["America/Anchorage"],
+  "787": ["America/Puerto_Rico"],
+  "939": ["America/Puerto_Rico"],
+  "340": ["America/St_Thomas"],
+  "671": ["Pacific/Guam"],
+  "670": ["Pacific/Saipan"],
+  "684": ["Pacific/Pago_Pago"],
+};
+
+/**
+ * Time zones a +1 number may be in, going by its area code.
+ */
+export const getRecipientTimeZones = (phoneE164: string): string[] =>
+  AREA_CODE_TIME_ZONES[phoneE164.slice(2, 5)] || MAINLAND_TIME_ZONES;
+
+const getHourIn = (timeZone: string, now: Date): number =>
+  parseInt(new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" }).format(now), 10);
+
+/**
+ * True while a text must not go out: it's quiet hours in any time zone
+ * the recipient may be in. Without a number, checks the mainland zones,
+ * so with the defaults texts go out from 8 AM Pacific to 9 PM Eastern.
+ * The window may wrap past midnight (e.g. 21 to 8).
+ */
+export const isQuietHours = (settings: SmsSettings, now: Date = new Date(), phoneE164?: string): boolean => {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === end) return false;
+  const zones = phoneE164 ? getRecipientTimeZones(phoneE164) : MAINLAND_TIME_ZONES;
+  return zones.some(zone => {
+    const hour = getHourIn(zone, now);
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  });
+};
+
+export const formatHour = (hour: number): string =>
+  `${hour % 12 === 0 ? 12 : hour % 12} ${hour < 12 ? "AM" : "PM"}`;
+
+// Numbers texted within the recipient cooldown
+const getRecentlyTexted = (leads: Lead[], settings: SmsSettings, now: Date): Set<string> => {
+  const cooldownMs = settings.recipientCooldownHours * 60 * 60 * 1000;
+  return new Set(
+    leads
+      .filter(l => l.sentAt && now.getTime() - new Date(l.sentAt).getTime() < cooldownMs)
+      .map(l => l.phoneE164)
+  );
+};
+
+// Still new (never contacted), not opted out, reviewed if it had to be,
+// not waiting for a duplicate decision, and a compliant message
+const canSendFirstText = (lead: Lead): boolean =>
+  lead.status === 'new' &&
+  !lead.isSuppressed &&
+  !needsReview(lead) &&
+  !lead.possibleDuplicate &&
+  lead.outreachMessage.trim().length > 0 &&
+  isCompliant(lead.complianceIssues) &&
+  (!lead.sendStatus || lead.sendStatus === 'queued' || lead.sendStatus === 'failed');
+
+/**
+ * Leads that may be texted now, oldest first: still new (not a duplicate
+ * and never contacted), not opted out, not waiting for a source or
+ * duplicate review, a compliant message, and no text to the same number
+ * within the cooldown. One lead per number.
+ */
+export const getSendQueue = (leads: Lead[], settings: SmsSettings, now: Date = new Date()): Lead[] => {
+  const recentlyTexted = getRecentlyTexted(leads, settings, now);
+
+  const queued = new Set<string>();
+  return [...leads]
+    .sort((a, b) => a.extractedAt.localeCompare(b.extractedAt))
+    .filter(lead => {
+      const eligible =
+        canSendFirstText(lead) &&
+        !recentlyTexted.has(lead.phoneE164) &&
+        !queued.has(lead.phoneE164);
+      if (eligible) queued.add(lead.phoneE164);
+      return eligible;
+    });
+};
+
+/**
+ * Contacted leads whose next follow-up is due today, with a written,
+ * compliant message for that step. Anyone who replied or opted out has
+ * left the sequence. Oldest sequences first, one text per number.
+ * @param getSteps The follow-up steps of the lead's campaign
+ */
+export const getFollowUpQueue = (
+  leads: Lead[],
+  getSteps: (lead: Lead) => FollowUpStep[],
+  settings: SmsSettings,
+  now: Date = new Date()
+): DueText[] => {
+  const recentlyTexted = getRecentlyTexted(leads, settings, now);
+  const queued = new Set<string>();
+  return leads
+    .filter(lead => isFollowUpDue(lead, getSteps(lead), now))
+    .sort((a, b) => a.sequenceStartedAt!.localeCompare(b.sequenceStartedAt!))
+    .flatMap(lead => {
+      const step = getNextFollowUpStep(lead, getSteps(lead))!;
+      const followUp = getFollowUpMessage(lead, step);
+      if (!followUp || !followUp.message.trim() || !isCompliant(followUp.complianceIssues)) return [];
+      if (recentlyTexted.has(lead.phoneE164) || queued.has(lead.phoneE164)) return [];
+      queued.add(lead.phoneE164);
+      return [{ lead, step, message: followUp.message }];
+    });
+};
+
+/**
+ * The text a queued lead should get for a step, checked again just before
+ * sending, or null once it must not go out: the lead opted out, replied,
+ * was deleted or already got that text.
+ */
+export const getMessageToSend = (lead: Lead | undefined, step: number, steps: FollowUpStep[]): string | null => {
+  if (!lead) return null;
+  if (step === 0) return canSendFirstText(lead) ? lead.outreachMessage : null;
+  if (getNextFollowUpStep(lead, steps) !== step) return null;
+  const followUp = getFollowUpMessage(lead, step);
+  return followUp && followUp.message.trim() && isCompliant(followUp.complianceIssues) ? followUp.message : null;
+};
+
+/**
+ * Every text due today: first texts for new leads, then due follow-ups.
+ */
+export const getDueTexts = (
+  leads: Lead[],
+  getSteps: (lead: Lead) => FollowUpStep[],
+  settings: SmsSettings,
+  now: Date = new Date()
+): DueText[] => [
+  ...getSendQueue(leads, settings, now).map(lead => ({ lead, step: 0, message: lead.outreachMessage })),
+  ...getFollowUpQueue(leads, getSteps, settings, now),
+];
+
+/**
+ * Gateway ids of texts whose status can still change: accepted by the
+ * gateway (Twilio answers 'queued') or sent, but not yet delivered or failed.
+ */
+export const getInFlightMessageIds = (leads: Lead[]): string[] =>
+  leads
+    .filter(lead => lead.smsMessageId && (lead.sendStatus === 'queued' || lead.sendStatus === 'sent'))
+    .map(lead => lead.smsMessageId!);
+
+/**
+ * Records delivery status lookups on the leads that sent those texts.
+ * Returns the same array when no status changed.
+ */
+export const applyDeliveryStatuses = (leads: Lead[], results: SmsSendResult[]): Lead[] => {
+  const byId = new Map(results.map(result => [result.id, result]));
+  let changed = false;
+  const updated = leads.map(lead => {
+    const result = lead.smsMessageId ? byId.get(lead.smsMessageId) : undefined;
+    if (!result || result.status === lead.sendStatus) return lead;
+    changed = true;
+    const delivery = { sendStatus: result.status, sendError: result.error };
+    if (result.status !== 'failed') return { ...lead, ...delivery };
+
+    // An undelivered text didn't reach the lead, so it can be sent again: a
+    // first text as a new lead, a follow-up as the step still due
+    const step = lead.smsMessageStep ?? 0;
+    if (step > 0) {
+      return { ...lead, ...delivery, followUps: lead.followUps?.map(f => (f.step === step ? { ...f, sentAt: undefined } : f)) };
+    }
+    return { ...lead, ...delivery, status: lead.status === 'contacted' ? 'new' : lead.status };
+  });
+  return changed ? updated : leads;
+};
+
+const postJson = async <T,>(path: string, body: unknown, accessKey: string): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessKey}` },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (response.status === 401) throw new Error("The app server rejected the SMS access key. Enter it under Sending rules.");
+  if (response.status === 429) throw new Error("The app server's send rate limit was reached. Lower messages per minute.");
+  if (!response.ok || data === null) throw new Error(data?.error?.message || `SMS request failed (${response.status})`);
+  return data as T;
+};
+
+/**
+ * Hands one text to the server's SMS gateway. Gateway rejections come back
+ * as a failed result; only server or network problems throw.
+ */
+export const sendSms = (to: string, body: string, accessKey: string): Promise<SmsSendResult> =>
+  postJson<SmsSendResult>("/send", { to, body }, accessKey);
+
+/**
+ * Looks up delivery status for sent messages (at most 100 ids per call).
+ */
+export const fetchSmsStatuses = async (ids: string[], accessKey: string): Promise<SmsSendResult[]> => {
+  const { results } = await postJson<{ results: SmsSendResult[] }>("/status", { ids }, accessKey);
+  return results;
+};
+
+/**
+ * Replies the server's SMS webhook received after the given time (ISO),
+ * and numbers added to the server's Do-Not-Contact list since then.
+ */
+export const fetchInboundReplies = (
+  since: string,
+  accessKey: string
+): Promise<{ replies: InboundReply[]; optOuts: SuppressedNumber[] }> =>
+  postJson<{ replies: InboundReply[]; optOuts: SuppressedNumber[] }>("/replies", { since }, accessKey);
+
+/**
+ * Copies Do-Not-Contact changes to the server, which refuses to text any
+ * number on its own list.
+ */
+export const syncSuppression = async (
+  changes: { add?: SuppressedNumber[]; remove?: string[] },
+  accessKey: string
+): Promise<void> => {
+  await postJson<{ ok: boolean }>("/suppression", changes, accessKey);
+};
+
+/**
+ * Name of the server's gateway ("twilio" or "fake"), or null if the server
+ * can't be reached.
+ */
+export const fetchSmsGatewayName = async (): Promise<string | null> => {
+  try {
+    const response = await fetch("/api/health");
+    const data = await response.json();
+    return typeof data?.smsGateway === "string" ? data.smsGateway : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,41 @@
+import { ConfidenceField, Lead, LeadInput } from "../types";
+
+// A field read with less confidence than this needs a person to check it
+export const REVIEW_CONFIDENCE = 0.8;
+
+export const CONFIDENCE_FIELD_LABELS: Record<ConfidenceField, string> = {
+  fullName: "Name",
+  phoneNumber: "Phone number",
+};
+
+/**
+ * Fields the extraction wasn't sure about. Leads read straight from a
+ * sheet have no confidence and never need review.
+ */
+export const getLowConfidenceFields = (lead: Lead): ConfidenceField[] =>
+  (Object.keys(CONFIDENCE_FIELD_LABELS) as ConfidenceField[]).filter(
+    field => (lead.confidence?.[field] ?? 1) < REVIEW_CONFIDENCE
+  );
+
+/**
+ * True while a low-confidence lead hasn't been checked against its source.
+ * These leads are held back from export.
+ */
+export const needsReview = (lead: Lead): boolean =>
+  !lead.reviewedAt && getLowConfidenceFields(lead).length > 0;
+
+/**
+ * Maps the line the model reported within a text chunk to a row of the
+ * whole file. Models miscount long chunks, so the row must contain the
+ * phone number; otherwise the chunk is searched for it.
+ * @param fileRows Rows of the whole file (see splitRows)
+ * @param rowNumbers Row of each chunk line, from splitTextIntoChunks
+ */
+export const locateSourceRow = (fileRows: string[], rowNumbers: number[], lead: LeadInput): number | undefined => {
+  const digits = lead.phoneNumber.replace(/\D/g, "").slice(-10);
+  const hasNumber = (row: number) => digits.length > 0 && (fileRows[row - 1] || "").replace(/\D/g, "").includes(digits);
+
+  const reported = lead.sourceRow !== undefined ? rowNumbers[lead.sourceRow - 1] : undefined;
+  if (reported !== undefined && hasNumber(reported)) return reported;
+  return rowNumbers.find(hasNumber) ?? reported;
+};
@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import { ColumnMapping, ExtraFieldDefinition, LeadInput, SheetData } from "../types";
+import { normalizePhone } from "./phoneNumber";
+import { matchExtraFieldColumns, readExtraFieldValues } from "./extraFields";
+
+const STRUCTURED_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+// How many leading rows to scan for a header row (title rows are common in exports)
+const HEADER_SCAN_ROWS = 10;
+
+const FULL_NAME_PATTERN = /^(full\s*name|name|driver|driver\s*name|contact|contact\s*name|candidate|applicant)$/i;
+const FIRST_NAME_PATTERN = /^(first|first\s*name|fname|given\s*name)$/i;
+const LAST_NAME_PATTERN = /^(last|last\s*name|lname|surname|family\s*name)$/i;
+const MOBILE_PATTERN = /(mobile|cell)/i;
+const PHONE_PATTERN = /(phone|tel|contact\s*(#|number))/i;
+const LANDLINE_PATTERN = /(home|work|office|fax|landline)/i;
+
+/**
+ * Returns true for files that can be parsed locally as rows and columns.
+ */
+export const isStructuredFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return STRUCTURED_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+const normalizeHeader = (value: string) => value.replace(/[_\-.:]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const findColumn = (headers: string[], pattern: RegExp): number | null => {
+  const index = headers.findIndex(h => pattern.test(normalizeHeader(h)));
+  return index === -1 ? null : index;
+};
+
+/**
+ * Picks the best phone column: mobile/cell first, then any phone column
+ * that isn't explicitly a home/work/fax number.
+ */
+const findPhoneColumn = (headers: string[]): number | null => {
+  const mobile = findColumn(headers, MOBILE_PATTERN);
+  if (mobile !== null) return mobile;
+
+  const index = headers.findIndex(h => {
+    const header = normalizeHeader(h);
+    return PHONE_PATTERN.test(header) && !LANDLINE_PATTERN.test(header);
+  });
+  return index === -1 ? null : index;
+};
+
+/**
+ * Guesses which columns hold the name and phone number.
+ * Returns null when no usable combination was found.
+ */
+export const detectColumnMapping = (headers: string[]): ColumnMapping | null => {
+  const mapping: ColumnMapping = {
+    nameColumn: findColumn(headers, FULL_NAME_PATTERN),
+    firstNameColumn: findColumn(headers, FIRST_NAME_PATTERN),
+    lastNameColumn: findColumn(headers, LAST_NAME_PATTERN),
+    phoneColumn: findPhoneColumn(headers),
+  };
+
+  return isMappingComplete(mapping) ? mapping : null;
+};
+
+/**
+ * A mapping is usable when it has a phone column and at least one name source.
+ */
+export const isMappingComplete = (mapping: ColumnMapping): boolean =>
+  mapping.phoneColumn !== null &&
+  (mapping.nameColumn !== null || mapping.firstNameColumn !== null || mapping.lastNameColumn !== null);
+
+/**
+ * Reads the first worksheet of a CSV/XLSX/XLS file as trimmed text cells.
+ */
+export const readSheetGrid = async (file: File): Promise<string[][]> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const firstSheetName = workbook.SheetNames[0];
+  if (!firstSheetName) return [];
+
+  return XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[firstSheetName], {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: false,
+  }).map(row => row.map(cell => String(cell ?? "").trim()));
+};
+
+/**
+ * Reads the first worksheet of a CSV/XLSX/XLS file and locates its header row.
+ * Returns null when no header row with name + phone columns could be found.
+ */
+export const parseSpreadsheet = async (file: File): Promise<{ sheet: SheetData; mapping: ColumnMapping } | null> => {
+  const grid = await readSheetGrid(file);
+
+  for (let i = 0; i < Math.min(grid.length, HEADER_SCAN_ROWS); i++) {
+    const mapping = detectColumnMapping(grid[i]);
+    if (mapping) {
+      return {
+        sheet: { headers: grid[i], rows: grid.slice(i + 1) },
+        mapping,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds lead rows from a sheet using a confirmed column mapping.
+ * Rows without a name or phone number are skipped. sourceRow counts the
+ * header row as row 1. Columns named after an extra field fill that field.
+ */
+export const applyColumnMapping = (sheet: SheetData, mapping: ColumnMapping, fields: ExtraFieldDefinition[] = []): LeadInput[] => {
+  const cell = (row: string[], column: number | null) => (column === null ? "" : row[column] || "");
+  const extraColumns = Array.from(matchExtraFieldColumns(sheet.headers, fields));
+
+  return sheet.rows
+    .map((row, index) => {
+      const fullName = mapping.nameColumn !== null
+        ? cell(row, mapping.nameColumn)
+        : [cell(row, mapping.firstNameColumn), cell(row, mapping.lastNameColumn)].filter(Boolean).join(' ');
+
+      return {
+        fullName: fullName.replace(/\s+/g, ' ').trim(),
+        phoneNumber: normalizePhone(cell(row, mapping.phoneColumn)).display,
+        sourceRow: index + 2,
+        extraFields: readExtraFieldValues(Object.fromEntries(extraColumns.map(([key, column]) => [key, cell(row, column)])), fields),
+      };
+    })
+    .filter(lead => lead.fullName.length > 0 && lead.phoneNumber.replace(/\D/g, '').length >= 10);
+};
+
+/**
+ * Converts the first worksheet of an XLSX/XLS file to CSV text so it can be
+ * sent to the AI when no usable columns were found.
+ */
+export const readSpreadsheetAsText = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const firstSheetName = workbook.SheetNames[0];
+  return firstSheetName ? XLSX.utils.sheet_to_csv(workbook.Sheets[firstSheetName]) : "";
+};
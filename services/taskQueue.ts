@@ -0,0 +1,79 @@
+/**
+ * A function that runs a task once a slot is free and resolves with its result.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `limit` tasks at a time. Extra tasks
+ * wait in a first-in, first-out queue, so any number can be submitted at once.
+ */
+export const createLimiter = (limit: number): Limiter => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+
+  // Hands the slot straight to the next waiting task so nothing can jump the queue
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+};
+
+/**
+ * Like Promise.all over items.map(worker), but with at most `limit` workers
+ * running at once. Results keep the order of the input.
+ */
+export const mapWithConcurrency = <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const run = createLimiter(limit);
+  return Promise.all(items.map((item, index) => run(() => worker(item, index))));
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  // How long the failed call asked to wait, if it said (e.g. a Retry-After header)
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}
+
+/**
+ * Runs a task, retrying with exponential backoff (plus jitter) while
+ * `shouldRetry` accepts the error. Gives up after `retries` extra attempts.
+ * Waits at least as long as the error asked for.
+ */
+export const retryWithBackoff = async <T>(
+  task: () => Promise<T>,
+  shouldRetry: (error: unknown) => boolean,
+  { retries = 3, baseDelayMs = 1000, getRetryAfterMs }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.5);
+      const delay = Math.max(backoff, getRetryAfterMs?.(error) ?? 0);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
@@ -0,0 +1,118 @@
+// Keep each extraction call well inside the model's output budget
+export const MAX_CHUNK_ROWS = 150;
+export const MAX_CHUNK_CHARS = 15000;
+
+// A data row has at least a phone number's worth of digits; a header row doesn't
+const MIN_ROW_DIGITS = 7;
+
+// Longest quoted cell kept together; past this the quote was most likely
+// not CSV quoting, and the lines are split up again
+const MAX_QUOTED_CELL_LINES = 20;
+
+/**
+ * Whether a quoted CSV cell is still open at the end of a line. A quote
+ * only opens a cell at its start (e.g. `,"`), so stray quotes in plain
+ * text such as `6'2" driver` are ignored.
+ */
+const endsInsideQuotes = (line: string, inQuotes: boolean): boolean => {
+  let atCellStart = !inQuotes;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char !== '"') continue;
+      // "" is an escaped quote inside the cell
+      if (line[i + 1] === '"') i++;
+      else inQuotes = false;
+    } else if (char === '"' && atCellStart) {
+      inQuotes = true;
+    } else if (char === "," || char === ";" || char === "\t") {
+      atCellStart = true;
+    } else if (char !== " ") {
+      atCellStart = false;
+    }
+  }
+  return inQuotes;
+};
+
+/**
+ * Splits text into lines, keeping quoted CSV cells that contain line breaks
+ * together with the row they belong to. Blank lines are dropped.
+ */
+export const splitRows = (text: string): string[] => {
+  const rows: string[] = [];
+  let pending: string[] = [];
+  let inQuotes = false;
+
+  const push = (row: string) => {
+    if (row.trim()) rows.push(row);
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    pending.push(line);
+    inQuotes = endsInsideQuotes(line, inQuotes);
+    if (inQuotes && pending.length <= MAX_QUOTED_CELL_LINES) return;
+    if (inQuotes) {
+      pending.forEach(push);
+      inQuotes = false;
+    } else {
+      push(pending.join("\n"));
+    }
+    pending = [];
+  });
+  if (pending.length > 0) push(pending.join("\n"));
+
+  return rows;
+};
+
+const isHeaderRow = (row: string): boolean => (row.match(/\d/g) || []).length < MIN_ROW_DIGITS;
+
+export interface TextChunk {
+  text: string;
+  // 1-based position in splitRows(text) of each row in the chunk, header included
+  rowNumbers: number[];
+}
+
+/**
+ * Splits a large text or CSV input into row-aligned chunks for extraction.
+ * A header row is repeated at the top of every chunk so column meaning is
+ * kept. Small inputs come back as a single chunk.
+ */
+export const splitTextIntoChunks = (
+  text: string,
+  maxRows: number = MAX_CHUNK_ROWS,
+  maxChars: number = MAX_CHUNK_CHARS
+): TextChunk[] => {
+  const rows = splitRows(text);
+  if (rows.length === 0) return [];
+
+  const header = rows.length > 1 && isHeaderRow(rows[0]) ? rows[0] : null;
+  const dataRows = header ? rows.slice(1) : rows;
+
+  const chunks: TextChunk[] = [];
+  let chunkRows: string[] = [];
+  let firstRow = header ? 2 : 1;
+  let chunkChars = header?.length ?? 0;
+
+  const flush = () => {
+    if (chunkRows.length === 0) return;
+    const rowNumbers = chunkRows.map((_, i) => firstRow + i);
+    chunks.push({
+      text: (header ? [header, ...chunkRows] : chunkRows).join("\n"),
+      rowNumbers: header ? [1, ...rowNumbers] : rowNumbers,
+    });
+    firstRow += chunkRows.length;
+    chunkRows = [];
+    chunkChars = header?.length ?? 0;
+  };
+
+  dataRows.forEach(row => {
+    if (chunkRows.length >= maxRows || (chunkRows.length > 0 && chunkChars + row.length > maxChars)) {
+      flush();
+    }
+    chunkRows.push(row);
+    chunkChars += row.length + 1;
+  });
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,191 @@
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ApiOptions, createApiHandler } from "../server/api";
+import { createFakeGateway } from "../server/smsGateway";
+import { InboundReply, SmsSendResult, SuppressedNumber } from "../types";
+
+// The fields any SMS route may answer with; the webhook's TwiML reads as {}
+interface ApiResponseBody extends Partial<SmsSendResult> {
+  results?: SmsSendResult[];
+  replies?: InboundReply[];
+  optOuts?: SuppressedNumber[];
+}
+
+type Call = (path: string, body: unknown, headers?: Record<string, string>) =>
+  Promise<{ status: number; headers: Headers; data: ApiResponseBody }>;
+
+const servers: ReturnType<typeof createServer>[] = [];
+
+/**
+ * Serves a fresh API handler on a free port.
+ */
+const startApi = async (options: Partial<ApiOptions> = {}): Promise<Call> => {
+  const handler = createApiHandler({
+    allowedModels: ["gemini-2.5-flash"],
+    requestsPerMinute: 10,
+    smsGateway: createFakeGateway(),
+    ...options,
+  });
+  const server = createServer((req, res) => handler(req, res));
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return async (route, body, headers = {}) => {
+    const form = typeof body === "string";
+    const response = await fetch(`http://127.0.0.1:${port}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": form ? "application/x-www-form-urlencoded" : "application/json", ...headers },
+      body: form ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, data: text.startsWith("{") ? JSON.parse(text) : {} };
+  };
+};
+
+const twilioLike = () => ({ ...createFakeGateway(), name: "twilio" });
+
+beforeEach(() => {
+  // The handler logs a line per request
+  mock.method(console, "log", () => {});
+});
+
+after(() => {
+  servers.forEach(server => server.close());
+});
+
+describe("POST /api/extract", () => {
+  const body = { fileContent: "John Smith 3145551234", mimeType: "text/plain", settings: { model: "gemini-1.0-pro" } };
+
+  it("is open to this machine without a token", async () => {
+    const call = await startApi();
+    // Past the access check, stopped by the model allow-list
+    assert.equal((await call("/api/extract", body)).status, 400);
+  });
+
+  it("refuses other machines without a token", async () => {
+    const call = await startApi({ trustProxy: true });
+    const { status, data } = await call("/api/extract", body, { "X-Forwarded-For": "203.0.113.5" });
+    assert.equal(status, 401);
+    assert.deepEqual(data, { error: { kind: 'access-denied' } });
+  });
+
+  it("needs the right access key once a token is set", async () => {
+    const call = await startApi({ aiApiToken: "secret" });
+    assert.equal((await call("/api/extract", body)).status, 401);
+    assert.equal((await call("/api/messages", body, { Authorization: "Bearer wrong" })).status, 401);
+    assert.equal((await call("/api/extract", body, { Authorization: "Bearer secret" })).status, 400);
+  });
+});
+
+describe("POST /api/sms/send", () => {
+  it("sends through the fake gateway without a token", async () => {
+    const call = await startApi();
+    const { status, data } = await call("/api/sms/send", { to: "+13145551234", body: "Hi" });
+    assert.equal(status, 200);
+    assert.equal(data.status, 'sent');
+    assert.match(data.id ?? "", /^FAKE/);
+  });
+
+  it("refuses a real gateway until a token is set", async () => {
+    const call = await startApi({ smsGateway: twilioLike() });
+    const { status } = await call("/api/sms/send", { to: "+13145551234", body: "Hi" });
+    assert.equal(status, 403);
+  });
+
+  it("needs the right access key once a token is set", async () => {
+    const call = await startApi({ smsGateway: twilioLike(), smsApiToken: "secret" });
+    const body = { to: "+13145551234", body: "Hi" };
+    assert.equal((await call("/api/sms/send", body)).status, 401);
+    assert.equal((await call("/api/sms/send", body, { Authorization: "Bearer wrong" })).status, 401);
+    assert.equal((await call("/api/sms/send", body, { Authorization: "Bearer secret" })).status, 200);
+  });
+
+  it("rejects bad numbers and empty texts", async () => {
+    const call = await startApi();
+    assert.equal((await call("/api/sms/send", { to: "3145551234", body: "Hi" })).status, 400);
+    assert.equal((await call("/api/sms/send", { to: "+13145551234", body: " " })).status, 400);
+  });
+
+  it("refuses numbers on the server's Do-Not-Contact list", async () => {
+    const call = await startApi();
+    await call("/api/sms/suppression", { add: [{ phoneE164: "+13145551234", addedAt: "2026-01-01T00:00:00.000Z", source: "App" }] });
+    const { data } = await call("/api/sms/send", { to: "+13145551234", body: "Hi" });
+    assert.equal(data.status, 'failed');
+
+    await call("/api/sms/suppression", { remove: ["+13145551234"] });
+    assert.equal((await call("/api/sms/send", { to: "+13145551234", body: "Hi" })).data.status, 'sent');
+  });
+
+  it("tells clients over the send limit when to retry", async () => {
+    const call = await startApi({ smsPerMinute: 1 });
+    await call("/api/sms/send", { to: "+13145551234", body: "Hi" });
+    const { status, headers } = await call("/api/sms/send", { to: "+13145559876", body: "Hi" });
+    assert.equal(status, 429);
+    assert.equal(headers.get("Retry-After"), "60");
+  });
+
+  it("doesn't count unauthenticated calls against the send limit", async () => {
+    const call = await startApi({ smsGateway: twilioLike(), smsApiToken: "secret", smsPerMinute: 2 });
+    const body = { to: "+13145551234", body: "Hi" };
+    assert.equal((await call("/api/sms/send", body)).status, 401);
+    assert.equal((await call("/api/sms/send", body)).status, 401);
+    assert.equal((await call("/api/sms/send", body, { Authorization: "Bearer secret" })).status, 200);
+  });
+});
+
+describe("POST /api/sms/status", () => {
+  it("reports sent texts and unknown ids", async () => {
+    const call = await startApi();
+    const sent = await call("/api/sms/send", { to: "+13145551234", body: "Hi" });
+    const { data } = await call("/api/sms/status", { ids: [sent.data.id, "FAKEmissing"] });
+    assert.deepEqual(data.results, [
+      { id: sent.data.id, status: 'sent' },
+      { id: "FAKEmissing", status: 'failed', error: "Unknown message id" },
+    ]);
+  });
+
+  it("needs at least one id", async () => {
+    const call = await startApi();
+    assert.equal((await call("/api/sms/status", { ids: [] })).status, 400);
+  });
+});
+
+describe("POST /api/sms/inbound", () => {
+  it("stores replies and puts STOP senders on the Do-Not-Contact list", async () => {
+    const call = await startApi();
+    const webhook = await call("/api/sms/inbound", "From=%2B13145551234&Body=STOP&MessageSid=SM1");
+    assert.equal(webhook.status, 200);
+
+    const { data } = await call("/api/sms/replies", { since: "" });
+    assert.deepEqual(data.replies?.map(r => r.id), ["SM1"]);
+    assert.deepEqual(data.optOuts?.map(o => o.phoneE164), ["+13145551234"]);
+    assert.equal((await call("/api/sms/send", { to: "+13145551234", body: "Hi" })).data.status, 'failed');
+  });
+
+  it("keeps opt-outs across restarts", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "suppression-"));
+    try {
+      const suppressionFile = path.join(dir, "suppression.json");
+      await (await startApi({ suppressionFile }))("/api/sms/inbound", "From=%2B13145551234&Body=stop");
+      const restarted = await startApi({ suppressionFile });
+      assert.equal((await restarted("/api/sms/send", { to: "+13145551234", body: "Hi" })).data.status, 'failed');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("needs the webhook token with a real gateway", async () => {
+    const reply = "From=%2B13145551234&Body=YES";
+    assert.equal((await (await startApi({ smsGateway: twilioLike() }))("/api/sms/inbound", reply)).status, 403);
+
+    const call = await startApi({ smsGateway: twilioLike(), webhookToken: "hook" });
+    assert.equal((await call("/api/sms/inbound?token=nope", reply)).status, 403);
+    assert.equal((await call("/api/sms/inbound?token=hook", reply)).status, 200);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkCompliance, getSmsEncodingInfo, isCompliant } from "../services/complianceRules";
+
+const context = { senderName: "Ana", companyName: "Acme" };
+const rules = (message: string, language: 'en' | 'es' = 'en') =>
+  checkCompliance(message, context, language).map(v => v.rule);
+
+describe("checkCompliance", () => {
+  it("passes a short message with identity and opt-out", () => {
+    const issues = checkCompliance("Hi John, Ana from Acme here. Open to new lanes? Reply YES or STOP to opt out", context);
+    assert.deepEqual(issues, []);
+    assert.ok(isCompliant(issues));
+  });
+
+  it("needs the opt-out text at the very end", () => {
+    assert.ok(rules("Reply YES or STOP to opt out. Hi John, Ana from Acme here").includes('opt-out'));
+  });
+
+  it("flags missing sender details, spam words and placeholders", () => {
+    const found = rules("Hi [Name], act now for free loads! Reply YES or STOP to opt out");
+    assert.ok(found.includes('sender-identity'));
+    assert.ok(found.includes('spam-words'));
+    assert.ok(found.includes('placeholder'));
+  });
+
+  it("accepts a normal Spanish message with the default ending in GSM-7", () => {
+    const message = "Hola Jose, soy Ana de Acme. Tenemos puestos de carga dedicada ahora mismo, con buen pago y casa cada semana. ¿Quiere mas informacion? Responda SI o STOP para darse de baja";
+    assert.equal(getSmsEncodingInfo(message).encoding, 'GSM-7');
+    assert.deepEqual(checkCompliance(message, context, 'es'), []);
+  });
+
+  it("fails a long message that accents push into UCS-2", () => {
+    const message = `Hola Jose, soy Ana de Acme. ${"Tenemos camión y más rutas. ".repeat(4)}Responda SI o STOP para darse de baja`;
+    assert.ok(rules(message, 'es').includes('length'));
+  });
+});
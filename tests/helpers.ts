@@ -0,0 +1,19 @@
+import { Lead } from "../types";
+
+/**
+ * A new, compliant lead; override whatever the test is about.
+ */
+export const makeLead = (overrides: Partial<Lead> = {}): Lead => ({
+  id: crypto.randomUUID(),
+  fullName: "John Smith",
+  phoneNumber: "(314) 555-1234",
+  phoneE164: "+13145551234",
+  outreachMessage: "Hi John, this is Ana from Acme. Open to hearing more? Reply YES or STOP to opt out",
+  sourceFile: "drivers.csv",
+  language: 'en',
+  status: 'new',
+  isSuppressed: false,
+  complianceIssues: [],
+  extractedAt: "2026-01-01T12:00:00.000Z",
+  ...overrides,
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AUTO_DUPLICATE_SCORE, REVIEW_DUPLICATE_SCORE, scoreMatch } from "../services/leadMatching";
+import { makeLead } from "./helpers";
+
+describe("scoreMatch", () => {
+  it("counts the same number as a duplicate whatever the name", () => {
+    const { score, reasons } = scoreMatch(makeLead(), makeLead({ fullName: "Mary Jones" }));
+    assert.ok(score >= AUTO_DUPLICATE_SCORE);
+    assert.ok(reasons.includes("same phone number"));
+  });
+
+  it("sends a nickname with a different number to review", () => {
+    const a = makeLead({ fullName: "Bill Smith" });
+    const b = makeLead({ fullName: "William Smith", phoneE164: "+13145559999" });
+    const { score, reasons } = scoreMatch(a, b);
+    assert.ok(score >= REVIEW_DUPLICATE_SCORE && score < AUTO_DUPLICATE_SCORE, `score ${score}`);
+    assert.ok(reasons.includes("different phone number"));
+  });
+
+  it("matches swapped first and last names", () => {
+    const a = makeLead({ fullName: "Smith John" });
+    const b = makeLead({ fullName: "John Smith", phoneE164: "+13145559999" });
+    assert.ok(scoreMatch(a, b).score >= REVIEW_DUPLICATE_SCORE);
+  });
+
+  it("scores different people with different numbers as no match", () => {
+    const a = makeLead({ fullName: "John Smith" });
+    const b = makeLead({ fullName: "Maria Garcia", phoneE164: "+13145559999" });
+    assert.equal(scoreMatch(a, b).score, 0);
+  });
+});
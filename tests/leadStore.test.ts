@@ -0,0 +1,23 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffLeads } from "../services/leadStore";
+import { makeLead } from "./helpers";
+
+describe("diffLeads", () => {
+  it("finds only the leads that were added, replaced or removed", () => {
+    const kept = makeLead();
+    const edited = makeLead();
+    const removed = makeLead();
+    const added = makeLead();
+    const updated = { ...edited, status: 'contacted' as const };
+
+    const { changed, deletedIds } = diffLeads([kept, edited, removed], [kept, updated, added]);
+    assert.deepEqual(changed, [updated, added]);
+    assert.deepEqual(deletedIds, [removed.id]);
+  });
+
+  it("finds nothing when the list is the same", () => {
+    const leads = [makeLead(), makeLead()];
+    assert.deepEqual(diffLeads(leads, [...leads]), { changed: [], deletedIds: [] });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AiServiceError } from "../services/aiErrors";
+import { createDefaultProfile } from "../services/campaignProfiles";
+import { checkCompliance } from "../services/complianceRules";
+import { DEFAULT_FOLLOW_UP_STEPS } from "../services/followUps";
+import { mockProvider } from "../services/mockProvider";
+import { AiSettings } from "../types";
+
+const settings: AiSettings = {
+  provider: 'mock', model: "mock", extractionTemperature: 0, messageTemperature: 0, baseUrl: "", apiKey: "", accessKey: "",
+};
+const profile = { ...createDefaultProfile(), senderName: "Ana", companyName: "Acme" };
+
+describe("mockProvider.extractLeads", () => {
+  it("reads names and numbers from text rows", async () => {
+    const leads = await mockProvider.extractLeads("John Smith, (314) 555-1234\nMaria Garcia 636.555.9876", "text/plain", settings, []);
+    assert.deepEqual(leads.map(l => l.fullName), ["John Smith", "Maria Garcia"]);
+  });
+
+  it("returns the fixture leads for images", async () => {
+    const leads = await mockProvider.extractLeads("", "image/png", settings, []);
+    assert.ok(leads.length > 0);
+  });
+
+  it("throws the error a marker asks for", async () => {
+    await assert.rejects(
+      mockProvider.extractLeads("#mock-error:rate-limit", "text/plain", settings, []),
+      (error: unknown) => error instanceof AiServiceError && error.kind === 'rate-limit'
+    );
+  });
+});
+
+describe("mockProvider.writeMessages", () => {
+  const leads = [
+    { fullName: "John Smith", phoneNumber: "3145551234", language: 'en' as const },
+    { fullName: "Jose Garcia", phoneNumber: "6365559876", language: 'es' as const },
+  ];
+
+  it("writes compliant first texts in each lead's language", async () => {
+    const written = await mockProvider.writeMessages(leads, profile, [], settings);
+    written.forEach((lead, i) => {
+      assert.deepEqual(checkCompliance(lead.outreachMessage!, profile, leads[i].language), [], lead.outreachMessage);
+    });
+  });
+
+  it("writes compliant follow-ups that differ from the first text", async () => {
+    const [first] = await mockProvider.writeMessages(leads.slice(0, 1), profile, [], settings);
+    const [followUp] = await mockProvider.writeMessages(leads.slice(0, 1), profile, [], settings, {
+      ...DEFAULT_FOLLOW_UP_STEPS[0],
+      step: 1,
+      totalSteps: DEFAULT_FOLLOW_UP_STEPS.length,
+    });
+    assert.notEqual(followUp.outreachMessage, first.outreachMessage);
+    assert.deepEqual(checkCompliance(followUp.outreachMessage!, profile, 'en'), []);
+  });
+});
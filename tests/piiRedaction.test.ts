@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { countRedactions, redactText } from "../services/piiRedaction";
+
+describe("redactText", () => {
+  it("masks SSNs, birth dates and street addresses", () => {
+    const { text, redactions } = redactText(
+      "John Smith, 3145551234, SSN 123-45-6789, DOB: 04/12/1985\nMary Jones, 123 Main St Apt 4, PO Box 77"
+    );
+    assert.equal(
+      text,
+      "John Smith, 3145551234, SSN [SSN REMOVED], [DOB REMOVED]\nMary Jones, [ADDRESS REMOVED], [ADDRESS REMOVED]"
+    );
+    assert.deepEqual(countRedactions(redactions), { ssn: 1, dob: 1, address: 2 });
+    assert.equal(redactions.find(r => r.kind === 'address')?.line, 2);
+  });
+
+  it("masks old unlabelled dates but keeps recent ones", () => {
+    assert.equal(redactText("Born 1980-03-02").text, "[DOB REMOVED]");
+    assert.equal(redactText("Hired 01/15/2025").text, "Hired 01/15/2025");
+  });
+
+  it("never touches phone numbers, even next to a street type", () => {
+    for (const line of [
+      "John Doe 314 555 1234 St Louis",
+      "John Doe (314) 555-1234 St Louis MO",
+      "314.555.1234 Dr Smith",
+      "+1 314 555 1234 Ct",
+    ]) {
+      assert.equal(redactText(line).text, line);
+    }
+  });
+
+  it("keeps quantities that look like a street name", () => {
+    assert.equal(redactText("12 yrs Way experience").text, "12 yrs Way experience");
+    assert.equal(redactText("Lives at 4500 N 5th Ave").text, "Lives at [ADDRESS REMOVED]");
+  });
+});
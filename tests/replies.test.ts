@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyReplies, classifyReply } from "../services/replies";
+import { makeLead } from "./helpers";
+
+describe("classifyReply", () => {
+  it("treats carrier keywords and opt-out phrases as opt-outs", () => {
+    assert.equal(classifyReply("STOP"), 'opt-out');
+    assert.equal(classifyReply("Unsubscribe"), 'opt-out');
+    assert.equal(classifyReply("please don't text me again"), 'opt-out');
+    assert.equal(classifyReply("Yes but stop texting at night"), 'opt-out');
+  });
+
+  it("reads yes and interest as interested, but not a decline", () => {
+    assert.equal(classifyReply("Yes"), 'interested');
+    assert.equal(classifyReply("sure, call me"), 'interested');
+    assert.equal(classifyReply("Not interested, thanks"), 'other');
+  });
+
+  it("reads Spanish replies, with or without accents", () => {
+    assert.equal(classifyReply("SI"), 'interested');
+    assert.equal(classifyReply("Sí"), 'interested');
+    assert.equal(classifyReply("si, me interesa"), 'interested');
+    assert.equal(classifyReply("No me interesa"), 'other');
+    assert.equal(classifyReply("Baja"), 'opt-out');
+    assert.equal(classifyReply("¿Cuánto pagan?"), 'question');
+  });
+
+  it("recognises wrong numbers and questions", () => {
+    assert.equal(classifyReply("wrong number"), 'wrong-number');
+    assert.equal(classifyReply("What's the pay per mile?"), 'question');
+  });
+});
+
+describe("applyReplies", () => {
+  it("moves matched leads along and collects every opt-out number", () => {
+    const lead = makeLead({ status: 'contacted' });
+    const { leads, matchedCount, optOutNumbers } = applyReplies([lead], [
+      { id: "1", from: lead.phoneE164, body: "STOP", receivedAt: "2026-01-02T00:00:00.000Z" },
+      { id: "2", from: "+13145559999", body: "stop", receivedAt: "2026-01-02T00:00:00.000Z" },
+    ]);
+    assert.equal(matchedCount, 1);
+    assert.equal(leads[0].status, 'opted-out');
+    assert.deepEqual([...optOutNumbers].sort(), [lead.phoneE164, "+13145559999"].sort());
+  });
+});
@@ -0,0 +1,37 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { createTwilioGateway } from "../server/smsGateway";
+import { applyDeliveryStatuses, getInFlightMessageIds } from "../services/smsSender";
+import { makeLead } from "./helpers";
+
+// Answers like Twilio: a new message is 'queued', later lookups return `status`
+let status = "queued";
+const twilio = createServer((req, res) => {
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ sid: "SM123", status, error_code: null, error_message: null }));
+});
+
+after(() => {
+  twilio.close();
+});
+
+describe("createTwilioGateway", () => {
+  it("keeps polling a text Twilio accepted as queued until it is delivered", async () => {
+    await new Promise<void>(resolve => twilio.listen(0, "127.0.0.1", resolve));
+    const { port } = twilio.address() as AddressInfo;
+    const gateway = createTwilioGateway({ accountSid: "AC1", authToken: "token", from: "+13145550000", baseUrl: `http://127.0.0.1:${port}` });
+
+    const sent = await gateway.send("+13145551234", "Hi");
+    assert.deepEqual(sent, { id: "SM123", status: 'queued', error: undefined });
+
+    const lead = makeLead({ status: 'contacted', sendStatus: sent.status, smsMessageId: sent.id });
+    assert.deepEqual(getInFlightMessageIds([lead]), ["SM123"]);
+
+    status = "delivered";
+    const [delivered] = applyDeliveryStatuses([lead], [await gateway.getStatus("SM123")]);
+    assert.equal(delivered.sendStatus, 'delivered');
+    assert.deepEqual(getInFlightMessageIds([delivered]), []);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_FOLLOW_UP_STEPS } from "../services/followUps";
+import {
+  applyDeliveryStatuses, DEFAULT_SMS_SETTINGS, getFollowUpQueue, getInFlightMessageIds, getMessageToSend,
+  getSendQueue, isQuietHours,
+} from "../services/smsSender";
+import { Lead } from "../types";
+import { makeLead } from "./helpers";
+
+const now = new Date("2026-03-10T18:00:00.000Z");
+const getSteps = () => DEFAULT_FOLLOW_UP_STEPS;
+
+const contactedLead = (overrides: Partial<Lead> = {}) => makeLead({
+  status: 'contacted',
+  sentAt: "2026-03-01T16:00:00.000Z",
+  sequenceStartedAt: "2026-03-01T16:00:00.000Z",
+  followUps: [{ step: 1, message: "Hi John, Ana from Acme again. Still looking? Reply YES or STOP to opt out", complianceIssues: [] }],
+  ...overrides,
+});
+
+describe("getSendQueue", () => {
+  it("queues new, compliant leads once per number, oldest first", () => {
+    const older = makeLead({ extractedAt: "2026-01-01T00:00:00.000Z" });
+    const sameNumber = makeLead({ extractedAt: "2026-01-02T00:00:00.000Z" });
+    const other = makeLead({ phoneE164: "+13145559999", extractedAt: "2025-12-31T00:00:00.000Z" });
+    assert.deepEqual(getSendQueue([sameNumber, older, other], DEFAULT_SMS_SETTINGS, now), [other, older]);
+  });
+
+  it("holds back opt-outs and non-compliant messages", () => {
+    const leads = [
+      makeLead({ phoneE164: "+13145550003", isSuppressed: true }),
+      makeLead({ phoneE164: "+13145550004", complianceIssues: [{ rule: 'opt-out', severity: 'error', message: "Missing" }] }),
+    ];
+    assert.deepEqual(getSendQueue(leads, DEFAULT_SMS_SETTINGS, now), []);
+  });
+
+  it("holds back leads waiting for review or a duplicate decision", () => {
+    const leads = [
+      makeLead({ phoneE164: "+13145550001", confidence: { phoneNumber: 0.3 } }),
+      makeLead({ phoneE164: "+13145550002", possibleDuplicate: { leadId: "x", score: 0.7, reasons: ["same name"] } }),
+    ];
+    assert.deepEqual(getSendQueue(leads, DEFAULT_SMS_SETTINGS, now), []);
+  });
+
+  it("sends a low-confidence lead once someone reviewed it", () => {
+    const lead = makeLead({ confidence: { phoneNumber: 0.3 }, reviewedAt: "2026-03-09T00:00:00.000Z" });
+    assert.deepEqual(getSendQueue([lead], DEFAULT_SMS_SETTINGS, now), [lead]);
+  });
+
+  it("skips a number texted within the cooldown", () => {
+    const texted = makeLead({ status: 'contacted', sentAt: new Date(now.getTime() - 60 * 60 * 1000).toISOString() });
+    assert.deepEqual(getSendQueue([texted, makeLead()], DEFAULT_SMS_SETTINGS, now), []);
+  });
+});
+
+describe("getFollowUpQueue", () => {
+  it("queues the written message once its day has come", () => {
+    const lead = contactedLead();
+    const queue = getFollowUpQueue([lead], getSteps, DEFAULT_SMS_SETTINGS, now);
+    assert.deepEqual(queue, [{ lead, step: 1, message: lead.followUps![0].message }]);
+  });
+
+  it("waits until the step is due", () => {
+    const lead = contactedLead({ sequenceStartedAt: "2026-03-09T16:00:00.000Z", sentAt: "2026-03-09T16:00:00.000Z" });
+    assert.deepEqual(getFollowUpQueue([lead], getSteps, DEFAULT_SMS_SETTINGS, now), []);
+  });
+
+  it("drops leads that replied, opted out or have no compliant message", () => {
+    const leads = [
+      contactedLead({ phoneE164: "+13145550001", status: 'replied' }),
+      contactedLead({ phoneE164: "+13145550002", isSuppressed: true }),
+      contactedLead({ phoneE164: "+13145550003", followUps: [] }),
+      contactedLead({
+        phoneE164: "+13145550004",
+        followUps: [{ step: 1, message: "Call now", complianceIssues: [{ rule: 'opt-out', severity: 'error', message: "Missing" }] }],
+      }),
+    ];
+    assert.deepEqual(getFollowUpQueue(leads, getSteps, DEFAULT_SMS_SETTINGS, now), []);
+  });
+});
+
+describe("getMessageToSend", () => {
+  it("returns nothing once the lead has opted out or is gone", () => {
+    const lead = makeLead();
+    assert.equal(getMessageToSend(lead, 0, []), lead.outreachMessage);
+    assert.equal(getMessageToSend({ ...lead, isSuppressed: true }, 0, []), null);
+    assert.equal(getMessageToSend(undefined, 0, []), null);
+  });
+
+  it("returns nothing for a follow-up step that already went out", () => {
+    const lead = contactedLead();
+    assert.equal(getMessageToSend(lead, 1, DEFAULT_FOLLOW_UP_STEPS), lead.followUps![0].message);
+    const sent = { ...lead, followUps: [{ ...lead.followUps![0], sentAt: now.toISOString() }] };
+    assert.equal(getMessageToSend(sent, 1, DEFAULT_FOLLOW_UP_STEPS), null);
+  });
+});
+
+describe("delivery status", () => {
+  it("polls texts until they are delivered or failed", () => {
+    const leads = [
+      makeLead({ sendStatus: 'queued' }),
+      makeLead({ sendStatus: 'queued', smsMessageId: "SM1" }),
+      makeLead({ sendStatus: 'sent', smsMessageId: "SM2" }),
+      makeLead({ sendStatus: 'delivered', smsMessageId: "SM3" }),
+      makeLead({ sendStatus: 'failed', smsMessageId: "SM4" }),
+    ];
+    assert.deepEqual(getInFlightMessageIds(leads), ["SM1", "SM2"]);
+  });
+
+  it("lets a first text that failed to deliver be sent again", () => {
+    const lead = makeLead({ status: 'contacted', sendStatus: 'sent', smsMessageId: "SM1" });
+    const [failed] = applyDeliveryStatuses([lead], [{ id: "SM1", status: 'failed', error: "Unreachable" }]);
+    assert.equal(failed.status, 'new');
+    assert.equal(failed.sendError, "Unreachable");
+  });
+
+  it("puts a follow-up that failed to deliver back in the sequence, not the first text", () => {
+    const lead = contactedLead({ sendStatus: 'sent', smsMessageId: "SM2", smsMessageStep: 1 });
+    lead.followUps = lead.followUps!.map(f => ({ ...f, sentAt: "2026-03-04T16:00:00.000Z" }));
+    const [failed] = applyDeliveryStatuses([lead], [{ id: "SM2", status: 'failed', error: "Unreachable" }]);
+    assert.equal(failed.status, 'contacted');
+    assert.equal(failed.followUps![0].sentAt, undefined);
+    assert.deepEqual(getSendQueue([failed], DEFAULT_SMS_SETTINGS, now), []);
+    assert.equal(getMessageToSend(failed, 1, DEFAULT_FOLLOW_UP_STEPS), failed.followUps![0].message);
+  });
+
+  it("returns the same leads when no status changed", () => {
+    const leads = [makeLead({ sendStatus: 'sent', smsMessageId: "SM1" })];
+    assert.equal(applyDeliveryStatuses(leads, [{ id: "SM1", status: 'sent' }]), leads);
+  });
+});
+
+describe("isQuietHours", () => {
+  // 9 PM to 8 AM by default
+  it("uses the recipient's area code", () => {
+    const evening = new Date("2026-03-10T01:30:00.000Z"); // 9:30 PM Eastern, 6:30 PM Pacific
+    assert.equal(isQuietHours(DEFAULT_SMS_SETTINGS, evening, "+13145551234"), true);
+    assert.equal(isQuietHours(DEFAULT_SMS_SETTINGS, evening, "+18085551234"), false);
+  });
+
+  it("is quiet for a mainland number until 8 AM in every zone", () => {
+    const morning = new Date("2026-03-10T13:30:00.000Z"); // 9:30 AM Eastern, 6:30 AM Pacific
+    assert.equal(isQuietHours(DEFAULT_SMS_SETTINGS, morning, "+13145551234"), true);
+    assert.equal(isQuietHours(DEFAULT_SMS_SETTINGS, new Date("2026-03-10T18:00:00.000Z"), "+13145551234"), false);
+  });
+
+  it("never is when start and end are the same hour", () => {
+    assert.equal(isQuietHours({ ...DEFAULT_SMS_SETTINGS, quietHoursStart: 0, quietHoursEnd: 0 }, now), false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { splitRows, splitTextIntoChunks } from "../services/textChunker";
+
+describe("splitRows", () => {
+  it("keeps a quoted cell's line breaks in its row", () => {
+    const text = 'Name,Phone,Notes\nJohn Smith,3145551234,"Class A\nHazmat"\nMary Jones,6365551234,';
+    assert.deepEqual(splitRows(text), [
+      "Name,Phone,Notes",
+      'John Smith,3145551234,"Class A\nHazmat"',
+      "Mary Jones,6365551234,",
+    ]);
+  });
+
+  it("ignores quotes inside an unquoted cell", () => {
+    const text = 'Bob "Tex" Miller,3145551234\nMary Jones,6365551234';
+    assert.deepEqual(splitRows(text), ['Bob "Tex" Miller,3145551234', "Mary Jones,6365551234"]);
+  });
+
+  it("gives up on a quote that never closes instead of joining the rest of the file", () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `Driver ${i},31455500${String(i).padStart(2, "0")}`);
+    const text = ['John Smith,3145551234,"never closed', ...rows].join("\n");
+    assert.equal(splitRows(text).length, 31);
+  });
+});
+
+describe("splitTextIntoChunks", () => {
+  it("repeats the header and numbers rows across chunks", () => {
+    const text = "Name,Phone\nA,3145550001\nB,3145550002\nC,3145550003";
+    assert.deepEqual(splitTextIntoChunks(text, 2), [
+      { text: "Name,Phone\nA,3145550001\nB,3145550002", rowNumbers: [1, 2, 3] },
+      { text: "Name,Phone\nC,3145550003", rowNumbers: [1, 4] },
+    ]);
+  });
+});
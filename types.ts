@@ -2,16 +2,266 @@ export interface Lead {
   id: string;
   fullName: string;
   phoneNumber: string;
+  phoneE164: string; // Canonical +1XXXXXXXXXX form, used for dedup and export
+  phoneWarning?: string; // e.g. toll-free or non-geographic number
   outreachMessage: string;
   sourceFile: string;
-  isDuplicate: boolean;
+  sourcePage?: number; // Page within sourceFile (PDFs only)
+  sourceId?: string; // Upload the lead came from, to find its source while it is still in memory
+  sourceRow?: number; // 1-based row in a text or spreadsheet source (row 1 is the header, if any)
+  sourceRegion?: SourceRegion; // Where the entry is on an image or PDF page
+  confidence?: FieldConfidence; // How sure the extraction was; unset for rows read straight from a sheet
+  reviewedAt?: string; // Set once someone checked the lead against its source
+  extraFields?: ExtraFieldValues; // Values for the user-defined extraction fields
+  language: MessageLanguage; // Language the outreach message is written in
+  status: LeadStatus;
+  duplicateOf?: string; // Id of the original lead when status is 'duplicate'
+  possibleDuplicate?: DuplicateCandidate; // Uncertain match waiting for review
+  duplicateOverride?: boolean; // Set when the user marks duplicate / not duplicate by hand
+  isSuppressed: boolean; // Number is on the Do-Not-Contact list
+  complianceIssues: ComplianceViolation[];
+  campaignSettings?: CampaignSettings; // Settings the current message was written with
   extractedAt: string;
+  sendStatus?: SmsSendStatus; // Unset until the lead is queued for sending
+  sendError?: string;
+  smsMessageId?: string; // Gateway id, used to poll delivery status
+  smsMessageStep?: number; // Sequence step smsMessageId was sent for; 0 is the first text
+  sentAt?: string;
+  sequenceStartedAt?: string; // When the first text went out; day 0 of the follow-up sequence
+  followUps?: FollowUpMessage[]; // Follow-up texts written so far, one per sequence step
+  lastReply?: LeadReply;
+}
+
+// A follow-up text for one step of the campaign's sequence
+export interface FollowUpMessage {
+  step: number; // 1-based follow-up step; the first text is step 0
+  message: string;
+  complianceIssues: ComplianceViolation[];
+  sentAt?: string;
+}
+
+// An earlier lead that may be the same person
+export interface DuplicateCandidate {
+  leadId: string;
+  score: number; // 0-1
+  reasons: string[]; // e.g. "nickname (bill / william)"
+}
+
+// Where a lead is in the outreach pipeline. 'new' and 'duplicate' are set
+// from the lead history; the rest follow sending and replies.
+export type LeadStatus = 'new' | 'duplicate' | 'contacted' | 'replied' | 'interested' | 'wrong-number' | 'opted-out';
+
+export type ReplyCategory = 'interested' | 'opt-out' | 'question' | 'wrong-number' | 'other';
+
+// A text received from a lead's number, as reported by the SMS webhook or a reply log
+export interface InboundReply {
+  id: string;
+  from: string; // E.164 when it could be normalized
+  body: string;
+  receivedAt: string;
+}
+
+// The most recent reply matched to a lead
+export interface LeadReply {
+  body: string;
+  category: ReplyCategory;
+  receivedAt: string;
+}
+
+export type ComplianceRuleId = 'empty' | 'opt-out' | 'sender-identity' | 'encoding' | 'length' | 'spam-words' | 'placeholder';
+
+export interface ComplianceViolation {
+  rule: ComplianceRuleId;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Campaign details a message is checked against
+export interface ComplianceContext {
+  senderName?: string;
+  companyName?: string;
+  optOutSuffix?: string;
+  spanishOptOutSuffix?: string;
+}
+
+export interface SmsEncodingInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+  nonGsmCharacters: string[];
+}
+
+export interface SimilarityReport {
+  varietyScore: number; // 0 = identical messages, 100 = nothing in common
+  maxSimilarity: number;
+  clusters: string[][]; // Lead ids grouped by near-identical messages
+  flaggedIds: string[]; // Leads whose message should be rewritten
+  analyzedCount: number;
+}
+
+export interface SuppressedNumber {
+  phoneE164: string;
+  addedAt: string;
+  source: string; // e.g. "Pasted", file name
+}
+
+// One touch after the first text, e.g. a day 3 follow-up
+export interface FollowUpStep {
+  delayDays: number; // Days after the first text
+  instructions: string; // What this touch should do; the AI gets it with the variety rules
+}
+
+// Which follow-up a message-writing call is for; unset for the first text
+export interface FollowUpContext extends FollowUpStep {
+  step: number;
+  totalSteps: number;
+}
+
+export type MessageLanguage = 'en' | 'es';
+
+// 'auto' picks a language for each lead from its name and source hints
+export type LanguageSetting = MessageLanguage | 'auto';
+
+export interface CampaignSettings {
+  profileId?: string;
+  senderName: string;
+  companyName: string;
+}
+
+// Everything that shapes the generated messages for one kind of recruiting campaign
+export interface CampaignProfile extends CampaignSettings {
+  id: string;
+  name: string;
+  roleDescription: string; // e.g. "CDL", "reefer", "warehouse"
+  jobOfferings: string[];
+  tone: string;
+  callToAction: string;
+  optOutSuffix: string;
+  spanishOptOutSuffix: string; // Required ending for messages written in Spanish
+  language: LanguageSetting;
+  followUpSteps: FollowUpStep[]; // Texts after the first one, in order
+  exampleMessages: string[];
+  updatedAt: string;
 }
 
 export interface ExtractedData {
   fullName: string;
   phoneNumber: string;
   outreachMessage: string;
+  sourcePage?: number; // 1-based page for multi-page documents
+  sourceRow?: number;
+  sourceRegion?: SourceRegion;
+  confidence?: FieldConfidence;
+  extraFields?: ExtraFieldValues;
+  language?: MessageLanguage; // Unset means English
+}
+
+export type ExtraFieldType = 'text' | 'number' | 'yes-no' | 'list';
+
+// A detail to pull from source lists besides name and number, e.g. CDL class
+export interface ExtraFieldDefinition {
+  key: string; // Property name in the model output and on Lead.extraFields
+  label: string;
+  type: ExtraFieldType;
+  description: string; // Tells the model what to look for, e.g. "A, B or C"
+}
+
+export type ExtraFieldValue = string | number | boolean | string[];
+
+// Only fields found in the source are set
+export type ExtraFieldValues = Record<string, ExtraFieldValue>;
+
+export type ConfidenceField = 'fullName' | 'phoneNumber';
+
+// 0-1 per field, as reported by the extraction model
+export type FieldConfidence = Partial<Record<ConfidenceField, number>>;
+
+// Box around an entry, as fractions (0-1) of the image or page size
+export interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An uploaded file kept in memory for the source review pane. Never
+// saved, so it is gone after a reload.
+export type SourceDocument =
+  | { kind: 'image'; url: string }
+  | { kind: 'pdf'; url: string }
+  | { kind: 'text'; rows: string[] };
+
+export type PhoneLineType = 'standard' | 'toll-free' | 'premium' | 'non-geographic';
+
+export interface PhoneCheck {
+  e164: string | null;
+  display: string;
+  isValid: boolean;
+  lineType: PhoneLineType;
+  issue?: string;
+}
+
+export interface LeadFilter {
+  search: string;
+  status: LeadStatus | 'all';
+  sourceFile: string | 'all';
+}
+
+export type LeadSortKey = 'fullName' | 'phoneNumber' | 'sourceFile' | 'extractedAt';
+
+export interface LeadSort {
+  key: LeadSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// How an AI call failed; each kind has its own advice for the user
+export type AiErrorKind = 'auth' | 'access-denied' | 'rate-limit' | 'unavailable' | 'blocked' | 'unsupported' | 'model-not-allowed' | 'malformed-output' | 'no-leads' | 'unknown';
+
+export type FileJobState = 'queued' | 'reading' | 'extracting' | 'writing' | 'done' | 'failed';
+
+// One uploaded file working through the processing queue
+export interface FileJob {
+  id: string;
+  file: File;
+  state: FileJobState;
+  // Progress within the current step, e.g. "Chunk 3 of 12"
+  detail?: string;
+  // Rows confirmed in the column mapping modal; these files skip AI extraction
+  mappedRows?: LeadInput[];
+  leadCount: number;
+  // Rows dropped for invalid phone numbers
+  skippedCount: number;
+  warning?: string;
+  error?: string;
+  // Personal details masked out of text uploads before they were sent
+  redactions?: Redaction[];
+}
+
+export type RedactionKind = 'ssn' | 'dob' | 'address';
+
+// One value masked out of a text upload; the original never leaves the browser
+export interface Redaction {
+  kind: RedactionKind;
+  line: number; // 1-based line of the uploaded text
+  value: string;
+}
+
+// What was sent to the AI for one file. Entries are only ever appended.
+export interface AuditLogEntry {
+  id: string;
+  sentAt: string;
+  fileName: string;
+  fileType: string;
+  // 'names' when the sheet was mapped locally and only the rows went out for messages
+  sent: 'text' | 'image' | 'pdf' | 'names';
+  provider: AiProviderId;
+  model: string;
+  leadCount: number;
+  skippedCount: number;
+  error?: string;
+  redactions: Partial<Record<RedactionKind, number>>;
+  campaign: CampaignSettings & Pick<CampaignProfile, 'optOutSuffix' | 'spanishOptOutSuffix' | 'language'> & { profileName: string };
+  extraFields: string[];
 }
 
 export enum ProcessingStatus {
@@ -19,4 +269,132 @@ export enum ProcessingStatus {
   PROCESSING = 'PROCESSING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Column indexes (into SheetData.headers) used to build leads locally
+export interface ColumnMapping {
+  nameColumn: number | null;
+  firstNameColumn: number | null;
+  lastNameColumn: number | null;
+  phoneColumn: number | null;
+}
+
+export type LeadInput = Pick<
+  ExtractedData,
+  'fullName' | 'phoneNumber' | 'sourcePage' | 'sourceRow' | 'sourceRegion' | 'confidence' | 'extraFields' | 'language'
+> & {
+  previousMessages?: string[]; // Follow-ups only: texts the lead already got
+};
+
+// Fields the user can edit inline in the lead table
+export type LeadEdit = Partial<Pick<Lead, 'fullName' | 'phoneNumber' | 'outreachMessage'>>;
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which AI backend does extraction and message writing, and how
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  extractionTemperature: number;
+  messageTemperature: number;
+  // OpenAI-compatible servers only
+  baseUrl: string;
+  apiKey: string;
+  // Gemini only: the app server's AI_API_TOKEN
+  accessKey: string;
+}
+
+// One AI backend. Failures are thrown as AiServiceError.
+export interface AiProvider {
+  // fileContent is base64 for images and PDFs, raw text otherwise
+  extractLeads: (
+    fileContent: string,
+    mimeType: string,
+    settings: AiSettings,
+    fields: ExtraFieldDefinition[]
+  ) => Promise<LeadInput[]>;
+  writeMessages: (
+    leads: LeadInput[],
+    profile: CampaignProfile,
+    avoidMessages: string[],
+    settings: AiSettings,
+    followUp?: FollowUpContext
+  ) => Promise<ExtractedData[]>;
+}
+
+export type SmsSendStatus = 'queued' | 'sent' | 'delivered' | 'failed';
+
+// A text that may go out today: a lead's first text (step 0) or a follow-up
+export interface DueText {
+  lead: Lead;
+  step: number;
+  message: string;
+}
+
+// How fast and when the app may send texts
+export interface SmsSettings {
+  messagesPerMinute: number;
+  // Hours in the recipient's time zone (0-23); no texts from quietHoursStart until quietHoursEnd
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  // Don't text the same number again within this many hours
+  recipientCooldownHours: number;
+  // The server's SMS_API_TOKEN
+  accessKey: string;
+}
+
+// One message handed to an SMS gateway
+export interface SmsSendResult {
+  id: string;
+  status: SmsSendStatus;
+  error?: string;
+}
+
+// An SMS backend on the app server (Twilio-compatible REST, or the fake gateway)
+export interface SmsGateway {
+  name: string;
+  send: (to: string, body: string) => Promise<SmsSendResult>;
+  getStatus: (id: string) => Promise<SmsSendResult>;
+}
+
+export type ExportFormat = 'xlsx' | 'csv' | 'json' | 'vcard';
+
+// A value that can be written to an export column; "extra:<key>" is a
+// user-defined extraction field
+export type ExportField = StandardExportField | `extra:${string}`;
+
+export type StandardExportField =
+  | 'fullName' | 'firstName' | 'lastName'
+  | 'phoneE164' | 'phoneNational' | 'phoneDisplay' | 'phoneWarning'
+  | 'message' | 'complianceIssues' | 'sourceFile' | 'sourcePage'
+  | 'status' | 'optedOut' | 'sendStatus' | 'lastReply'
+  | 'extractedDate' | 'extractedAt';
+
+export interface ExportColumn {
+  field: ExportField;
+  header: string;
+}
+
+// A saved column layout, e.g. the one a bulk-SMS tool's importer expects
+export interface ExportPreset {
+  id: string;
+  name: string;
+  columns: ExportColumn[];
+  builtIn?: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  presetId: string;
+  // 'due': first texts and follow-ups due today, each with the message to send
+  scope: 'all' | 'filtered' | 'selected' | 'due';
+  excludeDuplicates: boolean;
+  includeOptedOut: boolean;
+  // XLSX: a second sheet; other formats: a second file
+  duplicatesSeparately: boolean;
+}
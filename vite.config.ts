@@ -1,6 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { DEFAULT_AI_REQUESTS_PER_MINUTE, createApiHandler, parseModelList } from './server/api';
+import { createSmsGatewayFromEnv } from './server/smsGateway';
+
+// Serves the /api routes from the dev and preview servers, so the
+// Gemini key stays in Node and never reaches the client bundle.
+const apiPlugin = (env: Record<string, string>): Plugin => {
+  const handler = createApiHandler({
+    apiKey: env.GEMINI_API_KEY,
+    aiApiToken: env.AI_API_TOKEN || undefined,
+    allowedModels: parseModelList(env.GEMINI_MODELS),
+    requestsPerMinute: Number(env.API_RATE_LIMIT) || DEFAULT_AI_REQUESTS_PER_MINUTE,
+    smsGateway: createSmsGatewayFromEnv(env),
+    smsPerMinute: Number(env.SMS_RATE_LIMIT) || undefined,
+    smsApiToken: env.SMS_API_TOKEN || undefined,
+    suppressionFile: env.SMS_SUPPRESSION_FILE || 'data/suppression.json',
+    webhookToken: env.SMS_WEBHOOK_TOKEN || undefined,
+  });
+  return {
+    name: 'cold-leads-api',
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +36,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),